@@ -0,0 +1,7 @@
+// Type check the tests (and sources) against their own tsconfig
+process.env.TS_NODE_PROJECT = 'test/tsconfig.json';
+
+module.exports = {
+  require: 'ts-node/register',
+  spec: 'test/**/*.test.ts',
+};
@@ -0,0 +1,406 @@
+/**
+ * Reading files from the Data folder, loose or in BSAs.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  closeSync,
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, sep } from 'path';
+import { inflateSync } from 'zlib';
+import { createHash } from 'crypto';
+
+/**
+ * Archive flag for whether files are compressed by default
+ *
+ * @see BSA
+ */
+export const BSA_COMPRESSED = 0x4;
+
+/**
+ * Archive flag for whether file data starts with the full file path
+ *
+ * @see BSA
+ */
+export const BSA_EMBED_NAMES = 0x100;
+
+/**
+ * Bit in a file's size which inverts the default compression
+ *
+ * @see BSAEntry
+ */
+export const BSA_COMPRESSION_TOGGLE = 0x40000000;
+
+/**
+ * Location of a file inside a BSA.
+ */
+export interface BSAEntry {
+  /**
+   * Offset of file data from start of archive
+   */
+  offset: number;
+  /**
+   * Size of file data (in the archive)
+   */
+  size: number;
+  /**
+   * Whether file data is compressed
+   */
+  compressed: boolean;
+}
+
+/**
+ * Index of a Skyrim BSA.
+ *
+ * Supports TES5 (version 104, zlib) and SSE (version 105, LZ4) archives.
+ *
+ * @see readBSA
+ */
+export interface BSA {
+  /**
+   * Path to the archive
+   */
+  filename: string;
+  /**
+   * Archive format version
+   */
+  version: 104 | 105;
+  /**
+   * Archive flags
+   */
+  flags: number;
+  /**
+   * Files in archive by lower case path (with backslashes)
+   */
+  files: Map<string, BSAEntry>;
+}
+
+/**
+ * Normalize a path for looking it up in a BSA.
+ */
+export function normalizePath(path: string): string {
+  return path.replace(/\//g, '\\').toLowerCase();
+}
+
+/**
+ * Read the directory of a BSA (but not the file data).
+ *
+ * @throws if file is not a supported BSA
+ */
+export function readBSA(filename: string): BSA {
+  const fd = openSync(filename, 'r');
+  try {
+    const header = Buffer.alloc(36);
+    readSync(fd, header, 0, header.length, 0);
+    if (header.toString('latin1', 0, 4) !== 'BSA\0') {
+      throw new Error(`${filename} is not a BSA`);
+    }
+    const version = header.readUInt32LE(4);
+    if (version !== 104 && version !== 105) {
+      throw new Error(`Unsupported BSA version ${version} in ${filename}`);
+    }
+    const folderOffset = header.readUInt32LE(8);
+    const flags = header.readUInt32LE(12);
+    const folderCount = header.readUInt32LE(16);
+    const fileCount = header.readUInt32LE(20);
+    const folderNamesLength = header.readUInt32LE(24);
+    const fileNamesLength = header.readUInt32LE(28);
+
+    // Read everything before the file data at once
+    const folderRecordSize = version === 104 ? 16 : 24;
+    const dir = Buffer.alloc(
+      folderCount * folderRecordSize +
+        // Folder names and their length prefixes
+        folderNamesLength +
+        folderCount +
+        fileCount * 16 +
+        fileNamesLength
+    );
+    readSync(fd, dir, 0, dir.length, folderOffset);
+
+    // Folder records are just hash, count, and offset
+    const counts: number[] = [];
+    for (let i = 0; i < folderCount; i++) {
+      counts.push(dir.readUInt32LE(i * folderRecordSize + 8));
+    }
+
+    // File record blocks are a folder name followed by its files
+    let pos = folderCount * folderRecordSize;
+    const records: { folder: string; entry: BSAEntry }[] = [];
+    counts.forEach((count) => {
+      const length = dir.readUInt8(pos);
+      // Skip length prefix and null terminator
+      const folder = dir.toString('latin1', pos + 1, pos + length);
+      pos += length + 1;
+      for (let i = 0; i < count; i++, pos += 16) {
+        const size = dir.readUInt32LE(pos + 8);
+        records.push({
+          folder,
+          entry: {
+            offset: dir.readUInt32LE(pos + 12),
+            size: size & ~BSA_COMPRESSION_TOGGLE,
+            compressed:
+              !!(flags & BSA_COMPRESSED) !== !!(size & BSA_COMPRESSION_TOGGLE),
+          },
+        });
+      }
+    });
+
+    // File names block is null terminated names in same order as records
+    const names = dir.toString('latin1', pos).split('\0');
+    const files = new Map<string, BSAEntry>();
+    records.forEach(({ folder, entry }, i) => {
+      files.set(normalizePath(`${folder}\\${names[i]}`), entry);
+    });
+
+    return { filename, version, flags, files };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Decompress an LZ4 frame (as used by SSE BSAs).
+ *
+ * @param size Decompressed size
+ */
+export function decompressLZ4(data: Buffer, size: number): Buffer {
+  if (data.readUInt32LE(0) !== 0x184d2204) {
+    throw new Error('Invalid LZ4 frame');
+  }
+  const flg = data.readUInt8(4);
+  const hasBlockChecksums = !!(flg & 0x10);
+  const hasContentSize = !!(flg & 0x08);
+  const hasDictId = !!(flg & 0x01);
+
+  const out = Buffer.alloc(size);
+  let outPos = 0;
+  // Skip magic, FLG, BD, optional fields and header checksum
+  let pos = 6 + (hasContentSize ? 8 : 0) + (hasDictId ? 4 : 0) + 1;
+  while (pos < data.length) {
+    const blockSize = data.readUInt32LE(pos);
+    pos += 4;
+    if (blockSize === 0) {
+      // End mark
+      break;
+    }
+
+    const length = blockSize & 0x7fffffff;
+    const end = pos + length;
+    if (blockSize & 0x80000000) {
+      // Uncompressed block
+      outPos += data.copy(out, outPos, pos, end);
+    } else {
+      // Blocks may refer back into previous ones, so decode into same buffer
+      while (pos < end) {
+        const token = data[pos++];
+
+        // Copy literals
+        let literals = token >> 4;
+        if (literals === 15) {
+          let b;
+          do {
+            b = data[pos++];
+            literals += b;
+          } while (b === 255);
+        }
+        outPos += data.copy(out, outPos, pos, pos + literals);
+        pos += literals;
+        if (pos >= end) {
+          // Last sequence is only literals
+          break;
+        }
+
+        // Copy match
+        const offset = data.readUInt16LE(pos);
+        pos += 2;
+        let match = (token & 0xf) + 4;
+        if ((token & 0xf) === 15) {
+          let b;
+          do {
+            b = data[pos++];
+            match += b;
+          } while (b === 255);
+        }
+        // Copy byte at a time since match can overlap output
+        for (let i = 0; i < match; i++, outPos++) {
+          out[outPos] = out[outPos - offset];
+        }
+      }
+    }
+
+    pos = end + (hasBlockChecksums ? 4 : 0);
+  }
+
+  return out;
+}
+
+/**
+ * Read the contents of a file in a BSA.
+ */
+export function readBSAFile(bsa: BSA, path: string): Buffer {
+  const entry = bsa.files.get(normalizePath(path));
+  if (!entry) {
+    throw new Error(`${path} not found in ${bsa.filename}`);
+  }
+
+  const fd = openSync(bsa.filename, 'r');
+  try {
+    let { offset, size } = entry;
+    if (bsa.flags & BSA_EMBED_NAMES) {
+      // Skip the bstring path before the data
+      const length = Buffer.alloc(1);
+      readSync(fd, length, 0, 1, offset);
+      offset += length[0] + 1;
+      size -= length[0] + 1;
+    }
+
+    const data = Buffer.alloc(size);
+    readSync(fd, data, 0, size, offset);
+    if (!entry.compressed) {
+      return data;
+    }
+
+    // Compressed data starts with the decompressed size
+    const original = data.readUInt32LE(0);
+    const compressed = data.subarray(4);
+    return bsa.version === 104
+      ? inflateSync(compressed)
+      : decompressLZ4(compressed, original);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Find the archive which provides a file from the Data folder.
+ *
+ * @returns The winning BSA, or undefined if file is loose
+ * @throws if file is neither loose nor in an archive
+ */
+export function locateDataFile(
+  dir: string,
+  archives: readonly BSA[],
+  path: string
+): BSA | undefined {
+  // Loose files win over archives
+  if (existsSync(dir + path)) {
+    return undefined;
+  }
+
+  const key = normalizePath(path);
+  const bsa = archives.find(({ files }) => files.has(key));
+  if (!bsa) {
+    throw new Error(`${path} not found loose or in any archive`);
+  }
+
+  return bsa;
+}
+
+/**
+ * Previously computed hashes of data files.
+ *
+ * Loose files are keyed by path, archived files by archive and offset.
+ * Entries are only valid while the size and mtime of the file
+ * (or its archive) are unchanged.
+ *
+ * @see hashDataFile
+ */
+export interface HashCache {
+  [key: string]: { size: number; mtime: number; hash: string };
+}
+
+/**
+ * Compute the SHA1 of a loose or archived file from the Data folder.
+ *
+ * @param cache Hashes to reuse (updated with the new hash)
+ */
+export async function hashDataFile(
+  dir: string,
+  archives: readonly BSA[],
+  path: string,
+  cache: HashCache = {}
+): Promise<string> {
+  const bsa = locateDataFile(dir, archives, path);
+  const key = bsa
+    ? `${normalizePath(bsa.filename)}@${
+        bsa.files.get(normalizePath(path))!.offset
+      }`
+    : normalizePath(path);
+  const { size, mtimeMs: mtime } = statSync(bsa ? bsa.filename : dir + path);
+
+  const cached = cache[key];
+  if (cached && cached.size === size && cached.mtime === mtime) {
+    return cached.hash;
+  }
+
+  let hash: string;
+  if (bsa) {
+    hash = createHash('sha1').update(readBSAFile(bsa, path)).digest('hex');
+  } else {
+    const sha1 = createHash('sha1');
+    sha1.setEncoding('hex');
+    const fd = createReadStream(dir + path);
+    hash = await new Promise<string>((resolve, reject) => {
+      fd.on('end', () => {
+        sha1.end();
+        resolve(sha1.read());
+      });
+      fd.on('error', (err) => reject(err));
+      fd.pipe(sha1);
+    });
+  }
+
+  cache[key] = { size, mtime, hash };
+  return hash;
+}
+
+/**
+ * Read a loose or archived file from the Data folder.
+ */
+export function readDataFile(
+  dir: string,
+  archives: readonly BSA[],
+  path: string
+): Buffer {
+  const bsa = locateDataFile(dir, archives, path);
+  return bsa ? readBSAFile(bsa, path) : readFileSync(dir + path);
+}
+
+/**
+ * Folder for files extracted from archives.
+ */
+export const extractDir = join(tmpdir(), 'MechanicalTurkeyz');
+
+/**
+ * Get a path to a file from the Data folder that other programs can open,
+ * extracting it from its archive if needed.
+ *
+ * @returns Path relative to Data folder if loose, o.w. absolute path
+ */
+export function extractDataFile(
+  dir: string,
+  archives: readonly BSA[],
+  path: string
+): string {
+  const bsa = locateDataFile(dir, archives, path);
+  if (!bsa) {
+    return path;
+  }
+
+  const extracted = join(extractDir, normalizePath(path).replace(/\\/g, sep));
+  mkdirSync(dirname(extracted), { recursive: true });
+  writeFileSync(extracted, readBSAFile(bsa, path));
+
+  return extracted;
+}
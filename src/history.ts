@@ -0,0 +1,574 @@
+/**
+ * History of user's answers, for undoing them.
+ *
+ * @packageDocumentation
+ */
+
+import { appendFileSync, existsSync, readFileSync } from 'fs';
+
+import { isObject, KeywordInfo, Model } from './keywords';
+import {
+  Answer,
+  Choice,
+  Constraint,
+  forgetNifs,
+  learnKeyword,
+  learnModels,
+  Memories,
+  ModelNifs,
+  NifSlots,
+  rememberAnswer,
+  solveConstraints,
+} from './memory';
+
+/**
+ * JSON Lines file with the history of user's answers.
+ *
+ * Each line is a HistoryEntry or an UndoRecord.
+ */
+export const historyFile = 'MechanicalTurkeyz.history.jsonl';
+
+/**
+ * How learning from answers changed memories for a keyword.
+ *
+ * @see trackChanges
+ */
+export interface MemoryChanges {
+  /**
+   * Answers before and after by hash (missing if there was no answer)
+   */
+  answers: { [hash: string]: { from?: Answer; to?: Answer } };
+  /**
+   * Pending constraints which were added
+   */
+  added: Constraint[];
+  /**
+   * Pending constraints which were resolved or dropped
+   */
+  removed: Constraint[];
+}
+
+/**
+ * A user's answer about a keyword for one model of an ARMO,
+ * or their edits to answers about a keyword in the memory browser.
+ *
+ * Entries are only ever appended, and undone by appending an UndoRecord.
+ *
+ * @see historyFile
+ */
+export interface HistoryEntry {
+  /**
+   * Position in the history (assigned when loading)
+   */
+  index: number;
+  /**
+   * When it was answered (ISO 8601)
+   */
+  time: string;
+  /**
+   * When the patch run or review session started (ISO 8601)
+   */
+  session: string;
+  /**
+   * Missing for edits in the memory browser (as are plugin, model and choice)
+   */
+  editorid?: string;
+  /**
+   * Filename of plugin with the winning override
+   */
+  plugin?: string;
+  keyword: string;
+  model?: keyof typeof Model;
+  choice?: Choice;
+  /**
+   * Hashes of all the ARMO's nifs for the model (or of the nifs edited)
+   */
+  hashes: string[];
+  /**
+   * Hashes of the nifs relevant to keyword
+   */
+  relevantHashes: string[];
+  /**
+   * Body slots of the nifs
+   */
+  slots: NifSlots;
+  /**
+   * What learning the ARMO's answers about keyword changed
+   * (the same for each model answered together)
+   */
+  changes: MemoryChanges;
+  /**
+   * When it was undone (ISO 8601, assigned when loading)
+   */
+  undone?: string;
+}
+
+/**
+ * Line of the history recording answers being undone.
+ */
+export interface UndoRecord {
+  /**
+   * When the answers were undone (ISO 8601)
+   */
+  undone: string;
+  /**
+   * Indices of the entries undone
+   */
+  entries: number[];
+  /**
+   * Changes of the entries learned again afterwards, by index
+   */
+  redone: { [index: string]: MemoryChanges };
+}
+
+/**
+ * Load the history of answers, with undo records applied.
+ *
+ * Lines which can not be read (e.g., cut off by a crash) are ignored.
+ */
+export function loadHistory(): HistoryEntry[] {
+  if (!existsSync(historyFile)) {
+    return [];
+  }
+
+  const history: HistoryEntry[] = [];
+  readFileSync(historyFile, 'utf8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .forEach((line) => {
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch (err) {
+        return;
+      }
+      if (!isObject(record)) {
+        return;
+      }
+
+      if (typeof record.undone === 'string' && Array.isArray(record.entries)) {
+        const {
+          undone,
+          entries,
+          redone = {},
+        } = (record as unknown) as UndoRecord;
+        entries
+          .filter((i) => history[i])
+          .forEach((i) => (history[i].undone = undone));
+        Object.entries(redone)
+          .filter(([i]) => history[+i])
+          .forEach(([i, changes]) => (history[+i].changes = changes));
+      } else if (
+        Array.isArray(record.hashes) &&
+        Array.isArray(record.relevantHashes)
+      ) {
+        const {
+          changes = { answers: {}, added: [], removed: [] },
+          ...entry
+        } = (record as unknown) as Omit<HistoryEntry, 'index'>;
+        history.push({ ...entry, changes, index: history.length });
+      }
+    });
+
+  return history;
+}
+
+/**
+ * Add lines to the end of the history.
+ */
+export function appendHistoryLines(
+  records: readonly (Omit<HistoryEntry, 'index'> | UndoRecord)[]
+): void {
+  appendFileSync(
+    historyFile,
+    records.map((record) => `${JSON.stringify(record)}\n`).join('')
+  );
+}
+
+/**
+ * Learn from answers about a keyword, tracking what changes.
+ *
+ * @param learn Updates memories (only for keyword)
+ */
+export function trackChanges(
+  memories: Memories,
+  keyword: string,
+  learn: () => void
+): MemoryChanges {
+  const before = new Map(
+    Object.entries(memories.nifs).map(([hash, memory]) => [
+      hash,
+      memory?.keywords[keyword],
+    ])
+  );
+  const constraints = new Set(memories.constraints);
+
+  learn();
+
+  const answers: MemoryChanges['answers'] = {};
+  new Set([...before.keys(), ...Object.keys(memories.nifs)]).forEach((hash) => {
+    const from = before.get(hash);
+    const to = memories.nifs[hash]?.keywords[keyword];
+    if (from !== to) {
+      answers[hash] = { from, to };
+    }
+  });
+  const after = new Set(memories.constraints);
+
+  return {
+    answers,
+    added: memories.constraints.filter(
+      (constraint) =>
+        constraint.keyword === keyword && !constraints.has(constraint)
+    ),
+    removed: [...constraints].filter(
+      (constraint) => constraint.keyword === keyword && !after.has(constraint)
+    ),
+  };
+}
+
+/**
+ * Add answers about an ARMO to the end of the history.
+ *
+ * Skipped keywords were not learned, so they are left out.
+ *
+ * @param changes What learning each keyword changed
+ */
+export function appendHistory(
+  session: string,
+  { editorid, plugin }: { editorid: string; plugin: string },
+  choices: { [keyword: string]: { [model: string]: Choice } },
+  models: readonly ModelNifs[],
+  changes: { [keyword: string]: MemoryChanges }
+): void {
+  const time = new Date().toISOString();
+  appendHistoryLines(
+    Object.entries(choices).flatMap(([keyword, answered]) =>
+      models
+        .filter(
+          ({ model }) => answered[model] && answered[model] !== Choice.Skip
+        )
+        .map(({ model, hashes, relevantHashes, slots }) => ({
+          time,
+          session,
+          editorid,
+          plugin,
+          keyword,
+          model,
+          choice: answered[model],
+          hashes: [...hashes],
+          relevantHashes: [...relevantHashes[keyword]],
+          slots,
+          changes: changes[keyword] ?? { answers: {}, added: [], removed: [] },
+        }))
+    )
+  );
+}
+
+/**
+ * Learn from user's choices about the keywords of an ARMO,
+ * tracking what changes for the history.
+ *
+ * @returns Whether to apply each keyword, and what learning it changed
+ */
+export function learnAnswers(
+  memories: Memories,
+  infos: readonly KeywordInfo[],
+  choices: { [keyword: string]: { [model: string]: Choice } },
+  models: readonly ModelNifs[],
+  redoMaybes: boolean,
+  log: (message: string) => void = () => {}
+): {
+  apply: { [keyword: string]: boolean | undefined };
+  changes: { [keyword: string]: MemoryChanges };
+} {
+  const apply: { [keyword: string]: boolean | undefined } = {};
+  const changes: { [keyword: string]: MemoryChanges } = {};
+  infos.forEach((info) => {
+    changes[info.id] = trackChanges(memories, info.id, () => {
+      apply[info.id] = learnModels(
+        memories,
+        info,
+        choices[info.id] ?? {},
+        models,
+        redoMaybes,
+        log
+      );
+      solveConstraints(memories, log);
+    });
+  });
+
+  return { apply, changes };
+}
+
+/**
+ * Check if two constraints are the same.
+ */
+export function sameConstraint(a: Constraint, b: Constraint): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Make the same edits to answers about a keyword again.
+ */
+export function applyAnswerEdits(
+  memories: Memories,
+  keyword: string,
+  { answers, removed }: MemoryChanges
+): void {
+  Object.entries(answers).forEach(([hash, { to }]) => {
+    if (to === undefined) {
+      delete memories.nifs[hash]?.keywords[keyword];
+    } else {
+      rememberAnswer(memories, keyword, hash, to);
+    }
+  });
+  memories.constraints = memories.constraints.filter(
+    (constraint) => !removed.some((other) => sameConstraint(other, constraint))
+  );
+}
+
+/**
+ * Undo answers, putting back what memories were before them.
+ *
+ * Later answers involving the same nifs may have been learned
+ * from the undone ones, so they are undone too and then learned again.
+ * Answers changed some other way since (e.g., imported) are kept.
+ *
+ * @returns Record of the undo to append to the history
+ */
+export function undoAnswers(
+  memories: Memories,
+  history: readonly HistoryEntry[],
+  undo: readonly HistoryEntry[],
+  keywords: Record<string, KeywordInfo>,
+  redoMaybes: boolean,
+  log: (message: string) => void = () => {}
+): UndoRecord {
+  const time = new Date().toISOString();
+  const undoing = new Set(undo.map(({ index }) => index));
+  const first = Math.min(...undoing);
+
+  const touched = ({ hashes, changes }: HistoryEntry) => [
+    ...hashes,
+    ...Object.keys(changes.answers),
+  ];
+  const affected: { [keyword: string]: Set<string> } = {};
+  undo.forEach((entry) => {
+    affected[entry.keyword] ??= new Set();
+    touched(entry).forEach((hash) => affected[entry.keyword].add(hash));
+  });
+  const involves = (entry: HistoryEntry) =>
+    !!affected[entry.keyword] &&
+    touched(entry).some((hash) => affected[entry.keyword].has(hash));
+
+  // Answers about the nifs may have been deduced from other nifs' answers
+  const later = history.filter(
+    (entry) => entry.index > first && !entry.undone && !undoing.has(entry.index)
+  );
+  let changed = true;
+  while (changed) {
+    changed = false;
+    later.filter(involves).forEach((entry) =>
+      touched(entry)
+        .filter((hash) => !affected[entry.keyword].has(hash))
+        .forEach((hash) => {
+          affected[entry.keyword].add(hash);
+          changed = true;
+        })
+    );
+  }
+  const involved = history.filter(
+    (entry) =>
+      undoing.has(entry.index) || (later.includes(entry) && involves(entry))
+  );
+
+  // Answers to a keyword about an ARMO were learned together
+  const groups: HistoryEntry[][] = [];
+  involved.forEach((entry) => {
+    const group = groups.find(
+      ([{ time, editorid, keyword }]) =>
+        time === entry.time &&
+        editorid === entry.editorid &&
+        keyword === entry.keyword
+    );
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.push([entry]);
+    }
+  });
+
+  // Put back what was there before, newest first
+  [...groups].reverse().forEach(([{ keyword, changes }]) => {
+    Object.entries(changes.answers).forEach(([hash, { from, to }]) => {
+      if (memories.nifs[hash]?.keywords[keyword] !== to) {
+        log(`Keeping ${keyword} answer for ${hash}, it changed since`);
+        return;
+      }
+      if (from === undefined) {
+        delete memories.nifs[hash]?.keywords[keyword];
+      } else {
+        rememberAnswer(memories, keyword, hash, from);
+      }
+    });
+    memories.constraints = memories.constraints.filter(
+      (constraint) =>
+        !changes.added.some((added) => sameConstraint(added, constraint))
+    );
+    memories.constraints.push(...changes.removed);
+  });
+
+  // Learn the remaining answers again
+  const redone: UndoRecord['redone'] = {};
+  groups
+    .filter(([{ index }]) => !undoing.has(index))
+    .forEach((group) => {
+      const [{ keyword }] = group;
+      const info = keywords[keyword];
+      const changes = trackChanges(memories, keyword, () => {
+        group.forEach(({ choice, hashes, relevantHashes, slots, changes }) => {
+          if (!choice) {
+            // Make the same edits again
+            applyAnswerEdits(memories, keyword, changes);
+          } else if (!info) {
+            log(`Not relearning ${keyword} answer, no definition found`);
+          } else {
+            learnKeyword(
+              memories,
+              info,
+              choice,
+              hashes,
+              relevantHashes,
+              slots,
+              redoMaybes,
+              log
+            );
+          }
+        });
+        solveConstraints(memories, log);
+      });
+      group.forEach((entry) => {
+        entry.changes = changes;
+        redone[entry.index] = changes;
+      });
+    });
+  undo.forEach((entry) => {
+    entry.undone = time;
+  });
+
+  return { undone: time, entries: [...undoing], redone };
+}
+
+/**
+ * Get the sessions with answers that can be undone (newest first).
+ */
+export function historySessions(
+  history: readonly HistoryEntry[]
+): { session: string; count: number }[] {
+  const counts: { [session: string]: number } = {};
+  history
+    .filter(({ undone }) => !undone)
+    .forEach(({ session }) => {
+      counts[session] = (counts[session] ?? 0) + 1;
+    });
+
+  return Object.entries(counts)
+    .map(([session, count]) => ({ session, count }))
+    .sort((a, b) => b.session.localeCompare(a.session));
+}
+
+/**
+ * Changes made in the memory browser, to apply to the latest memories.
+ */
+export interface MemoryEdits {
+  /**
+   * New answers by hash and keyword (null to clear an answer)
+   */
+  answers: { [hash: string]: { [keyword: string]: Answer | null } };
+  /**
+   * Hashes of nifs to forget
+   *
+   * @see findStaleNifs
+   */
+  forget: string[];
+}
+
+/**
+ * Apply changes from the memory browser to memories.
+ *
+ * Nifs no longer in memories (e.g., forgotten since) are left alone.
+ *
+ * @returns What the edits changed for each keyword
+ */
+export function applyMemoryEdits(
+  memories: Memories,
+  { answers, forget }: MemoryEdits
+): { [keyword: string]: MemoryChanges } {
+  const forgotten = forget.filter((hash) => memories.nifs[hash]);
+  const keywords = new Set([
+    ...Object.values(answers).flatMap((edits) => Object.keys(edits)),
+    ...forgotten.flatMap((hash) =>
+      Object.keys(memories.nifs[hash]?.keywords ?? {})
+    ),
+    ...memories.constraints
+      .filter(({ hashes }) => hashes.some((hash) => forgotten.includes(hash)))
+      .map(({ keyword }) => keyword),
+  ]);
+
+  const changes: { [keyword: string]: MemoryChanges } = {};
+  keywords.forEach((keyword) => {
+    changes[keyword] = trackChanges(memories, keyword, () => {
+      Object.entries(answers)
+        .filter(([hash]) => memories.nifs[hash])
+        .forEach(([hash, edits]) => {
+          const answer = edits[keyword];
+          if (answer === null) {
+            delete memories.nifs[hash]?.keywords[keyword];
+          } else if (answer !== undefined) {
+            rememberAnswer(memories, keyword, hash, answer);
+          }
+        });
+      forgotten.forEach((hash) => {
+        delete memories.nifs[hash]?.keywords[keyword];
+      });
+      memories.constraints = memories.constraints.filter(
+        (constraint) =>
+          constraint.keyword !== keyword ||
+          !constraint.hashes.some((hash) => forgotten.includes(hash))
+      );
+    });
+  });
+  forgetNifs(memories, forgotten);
+
+  return changes;
+}
+
+/**
+ * Add edits from the memory browser to the end of the history.
+ *
+ * @param changes What the edits changed for each keyword
+ * @see applyMemoryEdits
+ */
+export function appendEdits(
+  session: string,
+  changes: { [keyword: string]: MemoryChanges }
+): void {
+  const time = new Date().toISOString();
+  appendHistoryLines(
+    Object.entries(changes)
+      .filter(
+        ([, { answers, removed }]) =>
+          Object.keys(answers).length > 0 || removed.length > 0
+      )
+      .map(([keyword, changes]) => ({
+        time,
+        session,
+        keyword,
+        hashes: Object.keys(changes.answers),
+        relevantHashes: [],
+        slots: {},
+        changes,
+      }))
+  );
+}
@@ -1,7 +1,14 @@
 /// <reference types='@zedit/upf' />
 
-import { execFile } from 'child_process';
-import { createReadStream } from 'fs';
+import { ChildProcess, execFile } from 'child_process';
+import {
+  copyFileSync,
+  existsSync,
+  readdirSync,
+  readFileSync,
+  rmdirSync,
+} from 'fs';
+import { isAbsolute, join } from 'path';
 import { createHash } from 'crypto';
 import { remote } from 'electron';
 
@@ -9,6 +16,12 @@ import type Bluebird from 'bluebird';
 
 import type { ElementHandle, RecordHandle } from 'xelib';
 
+import type * as keywords from './keywords';
+import type * as memory from './memory';
+import type * as history from './history';
+import type * as data from './data';
+import type * as nif from './nif';
+
 // Don't be a module
 export = 0;
 
@@ -25,55 +38,109 @@ const { dialog } = remote;
 declare const Promise: typeof Bluebird;
 
 /**
- * Possible answers from user about applying keyword to ARMO.
- */
-const enum Answer {
-  /**
-   * Tag definitely applies (do not ask again)
-   */
-  Yes = 1,
-  /**
-   * Tag definitely does not apply (do not ask again)
-   */
-  No,
-  /**
-   * Tag maybe applies (ask again if `redoMaybes`, o.w. treat as Yes)
-   */
-  MaybeYes,
-  /**
-   * Tag maybe does not apply (ask again if `redoMaybes`, o.w. treat as No)
-   */
-  MaybeNo,
-}
-
-/**
- * Possible previous answers about a nif.
+ * AngularJS global from zEdit
  *
- * @see Answer
- * @see Memory
+ * @hidden
  */
-type Answered = Answer.Yes | Answer.No | undefined;
+declare const angular: any;
 
 /**
- * How to track what we have "learned".
+ * Load another file of this patcher.
+ *
+ * zEdit runs the patcher from its source, so relative paths do not work.
+ *
+ * @hidden
  */
-interface Memory {
-  /**
-   * The names we have seen this as.
-   */
-  filenames: string[];
-  /**
-   * Knowledge about which keywords apply.
-   */
-  keywords: { [keyword: string]: Answer | undefined };
+function requirePatcherFile<T>(name: string): T {
+  return require(join(patcherPath, name));
 }
 
-/**
- * Remember things by hash rather than file.
- */
-interface Memories {
-  [filehash: string]: Memory | undefined;
-}
+const {
+  BodySlot,
+  RuleAction,
+  describeRule,
+  matchesRule,
+  parseKeywordRules,
+  loadKeywordFiles,
+  Model,
+  displayedModels,
+  isObject,
+} = requirePatcherFile<typeof keywords>('keywords');
+type BodySlot = keywords.BodySlot;
+type RuleAction = keywords.RuleAction;
+type KeywordRule = keywords.KeywordRule;
+type RuleSubject = keywords.RuleSubject;
+type RuleDefinition = keywords.RuleDefinition;
+type KeywordInfo = keywords.KeywordInfo;
+type LoadedKeywords = keywords.LoadedKeywords;
+type Model = keywords.Model;
+type DisplayModel = keywords.DisplayModel;
+
+const {
+  answerNames,
+  isYes,
+  isMaybe,
+  toAnswer,
+  textureSeparator,
+  findPreviousVersion,
+  carryAnswers,
+  solveConstraints,
+  inferModels,
+  relevantModels,
+  questionKey,
+  memoryVersion,
+  migrateMemories,
+  mergeMemories,
+  defaultExportOptions,
+  filterMemories,
+  Choice,
+  memoryRows,
+  matchesMemoryFilter,
+  findStaleNifs,
+  forgetNifs,
+} = requirePatcherFile<typeof memory>('memory');
+type Memories = memory.Memories;
+type NifSlots = memory.NifSlots;
+type ModelNifs = memory.ModelNifs;
+type MemoryFile = memory.MemoryFile;
+type MergeConflict = memory.MergeConflict;
+type MergeSummary = memory.MergeSummary;
+type ExportOptions = memory.ExportOptions;
+type Choice = memory.Choice;
+type MemoryRow = memory.MemoryRow;
+
+const {
+  loadHistory,
+  appendHistoryLines,
+  appendHistory,
+  learnAnswers,
+  undoAnswers,
+  historySessions,
+  applyMemoryEdits,
+  appendEdits,
+} = requirePatcherFile<typeof history>('history');
+type HistoryEntry = history.HistoryEntry;
+
+const {
+  normalizePath,
+  readBSA,
+  hashDataFile,
+  readDataFile,
+  extractDir,
+  extractDataFile,
+} = requirePatcherFile<typeof data>('data');
+type BSA = data.BSA;
+type HashCache = data.HashCache;
+
+const {
+  readNif,
+  nifSlots,
+  referenceBodies,
+  bodyCoverage,
+  suggestAnswer,
+} = requirePatcherFile<typeof nif>('nif');
+type Nif = nif.Nif;
+type Suggestion = nif.Suggestion;
 
 /**
  * JSON file for storing what we have "learned".
@@ -92,241 +159,581 @@ function getBodyTemplate(record: RecordHandle): ElementHandle | 0 {
 }
 
 /**
- * @internal
+ * Hash the alternate textures an ARMA uses for a model, if any.
+ *
+ * Texture sets are described by their texture paths rather than FormIDs,
+ * so the hash does not depend on load order.
+ *
+ * @see textureSeparator
+ */
+function textureHash(arma: RecordHandle, model: Model): string | undefined {
+  // e.g., MOD2 -> MO2S
+  const path = model.replace(/MOD(\d)$/, 'MO$1S');
+  if (!xelib.HasElement(arma, path)) {
+    return undefined;
+  }
+
+  const alternates = xelib
+    // @ts-ignore
+    .GetElements(arma, path)
+    .map((alt) => {
+      const txst = xelib.GetLinksTo(alt, 'New Texture');
+      const textures = txst
+        ? xelib
+            // @ts-ignore
+            .GetElements(txst, 'Textures (RGB/A)')
+            .map((tx) => xelib.GetValue(tx, '').toLowerCase())
+        : [];
+      return [
+        xelib.GetValue(alt, '3D Name'),
+        xelib.GetValue(alt, '3D Index'),
+        ...textures,
+      ].join('|');
+    })
+    .sort();
+
+  return createHash('sha1').update(alternates.join('\n')).digest('hex');
+}
+
+/**
+ * Look up the races to check ARMAs for.
+ *
+ * @param races EditorIDs of races or filenames of plugins, one per line
+ * @param playable Whether to include every playable race
+ * @returns Load order FormIDs of the races (playable races if none given)
+ * @throws if a line matches no race or plugin
+ */
+function loadRaces(races: string, playable: boolean): Set<number> {
+  const all = xelib.GetRecords(0, 'RACE');
+  const found = new Set<number>();
+
+  const addPlayable = () =>
+    all
+      .filter((race) => xelib.GetFlag(race, 'DATA\\Flags', 'Playable'))
+      .forEach((race) => found.add(xelib.GetFormID(race)));
+
+  if (playable) {
+    addPlayable();
+  }
+
+  races
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => !!line)
+    .forEach((line) => {
+      const file = xelib.FileByName(line);
+      // A plugin's own races, not vanilla races it edits
+      const matches = file
+        ? xelib.GetRecords(file, 'RACE').filter((race) => xelib.IsMaster(race))
+        : all.filter((race) => xelib.EditorID(race) === line);
+      if (matches.length === 0) {
+        throw new Error(`No race or plugin with races found for ${line}`);
+      }
+      matches.forEach((race) => found.add(xelib.GetFormID(race)));
+    });
+
+  if (found.size === 0) {
+    // Nothing configured, so check the races players can use
+    addPlayable();
+  }
+
+  return found;
+}
+
+/**
+ * Check if an ARMA is for any of the races, including its additional races.
+ *
+ * @see loadRaces
+ */
+function isArmaForRaces(arma: RecordHandle, races: ReadonlySet<number>) {
+  const links = [xelib.GetLinksTo(arma, 'RNAM')];
+  if (xelib.HasElement(arma, 'Additional Races')) {
+    links.push(
+      ...xelib
+        // @ts-ignore
+        .GetElements(arma, 'Additional Races')
+        .map((el) => xelib.GetLinksTo(el, ''))
+    );
+  }
+
+  return links.some((race) => race && races.has(xelib.GetFormID(race)));
+}
+
+/**
+ * Follow an ARMO's template (TNAM) chain to the base armor.
+ *
+ * Enchanted and leveled variants of armors use a template.
+ *
+ * @returns undefined if ARMO has no template
+ */
+function templateBase(armo: RecordHandle): RecordHandle | undefined {
+  const seen = new Set([xelib.GetFormID(armo)]);
+  let base: RecordHandle | undefined;
+  let current = armo;
+  while (xelib.HasElement(current, 'TNAM')) {
+    const link = xelib.GetLinksTo(current, 'TNAM');
+    if (!link) {
+      // Broken template?
+      break;
+    }
+    current = xelib.GetWinningOverride(link);
+    const formid = xelib.GetFormID(current);
+    if (seen.has(formid)) {
+      // Circular templates?
+      break;
+    }
+    seen.add(formid);
+    base = current;
+  }
+
+  return base;
+}
+
+/**
+ * Get the ARMAs an ARMO lists itself.
+ */
+function ownArmatures(armo: RecordHandle): RecordHandle[] {
+  if (!xelib.HasElement(armo, 'Armature')) {
+    return [];
+  }
+  return (
+    xelib
+      // @ts-ignore
+      .GetElements(armo, 'Armature')
+      .map((el) => xelib.GetLinksTo(el, ''))
+      .filter((arma) => !!arma)
+  );
+}
+
+/**
+ * Get the EditorIDs of an ARMO's ARMAs.
+ */
+function armatureIds(armo: RecordHandle): string[] {
+  return ownArmatures(armo).map((arma) => xelib.EditorID(arma));
+}
+
+/**
+ * Get an ARMO's ARMAs (winning overrides).
+ *
+ * Variants with no ARMAs of their own use their base armor's.
+ *
+ * @see templateBase
+ */
+function armatures(armo: RecordHandle): RecordHandle[] {
+  let armas = ownArmatures(armo);
+  if (armas.length === 0) {
+    const base = templateBase(armo);
+    armas = base ? ownArmatures(base) : [];
+  }
+  return armas.map((arma) => xelib.GetWinningOverride(arma));
+}
+
+/**
+ * Find the first rule of a keyword matching an ARMO.
+ */
+function findRule(
+  { rules = [] }: KeywordInfo,
+  armo: RecordHandle
+): KeywordRule | undefined {
+  if (rules.length === 0) {
+    return undefined;
+  }
+  const armor: RuleSubject = {
+    editorid: xelib.EditorID(armo),
+    name: xelib.FullName(armo),
+    plugin: xelib.GetFileName(
+      xelib.GetElementFile(xelib.GetMasterRecord(armo))
+    ),
+    hasKeyword: (keyword) => xelib.HasKeyword(armo, keyword),
+  };
+  return rules.find((rule) => matchesRule(rule, armor));
+}
+
+/**
+ * Folder (relative to the Data folder) for user keyword definition files.
+ *
+ * Every `.json` file in it should contain either a single
+ * `KeywordDefinition` or an array of them.
+ *
+ * @see KeywordDefinition
+ */
+const keywordDir = 'MechanicalTurkeyz\\keywords';
+
+/**
+ * Load the user keyword definitions from the Data folder.
+ *
+ * @see loadKeywordFiles
  */
-function invalidKeywordType(type: never): never {
-  throw new Error(`Invalid keyword type: ${type}`);
+function loadKeywords(): LoadedKeywords {
+  return loadKeywordFiles(xelib.GetGlobal('DataPath') + keywordDir);
 }
 
 /**
- * Body slots
+ * What to do with a nif viewer once user has answered about an ARMO.
+ *
+ * @see ViewerProfile
  */
-const enum BodySlot {
-  Head = '30 - Head',
-  Hair = '31 - Hair',
-  Body = '32 - Body',
-  Hands = '33 - Hands',
-  Forearms = '34 - Forearms',
-  Amulet = '35 - Amulet',
-  Ring = '36 - Ring',
-  Feet = '37 - Feet',
-  Calves = '38 - Calves',
-  Shield = '39 - Shield',
-  Tail = '40 - Tail',
-  LongHair = '41 - LongHair',
-  Circlet = '42 - Circlet',
-  Ears = '43 - Ears',
+enum ViewerLifecycle {
   /**
-   * face/mouth
+   * Wait for user to close the viewer
    */
-  FaceMouth = '44 - Unnamed',
+  Wait = 'Wait for it to be closed',
   /**
-   * neck (like a cape, scarf, shawl, neck-tie etc.)
+   * Close the viewer
+   *
+   * May not work with Mod Organizer's VFS.
    */
-  Neck = '45 - Unnamed',
+  Close = 'Close it',
   /**
-   * chest primary or outergarment
+   * Leave the viewer open while the next ARMO has the same nifs
    */
-  ChestPrimary = '46 - Unnamed',
+  Reuse = 'Reuse it for the same nifs',
+}
+
+/**
+ * How to launch a nif viewer.
+ *
+ * Arguments and working directory are templates:
+ * `{dir}` is replaced with the Data folder,
+ * and an argument containing `{nif}` is repeated for each nif.
+ *
+ * @see openViewer
+ */
+interface ViewerProfile {
   /**
-   * back (like a backpack/wings etc.)
+   * Path to program to view nifs (absolute or relative to Data folder)
    */
-  Back = '47 - Unnamed',
+  exe: string;
   /**
-   * misc/FX
+   * Arguments to pass the program
+   *
+   * @default ['{nif}']
    */
-  Misc48 = '48 - Unnamed',
+  args: string[];
   /**
-   * pelvis primary or outergarment
+   * Working directory of the program
+   *
+   * @default '{dir}'
    */
-  PelvisPrimary = '49 - Unnamed',
-  DecapitatedHead = '50 - DecapitateHead',
-  Decapitate = '51 - Decapitate',
+  cwd: string;
   /**
-   * pelvis secondary or undergarment
+   * Whether to launch one viewer per nif rather than one for all the nifs
+   *
+   * @default false
    */
-  PelvisSecondary = '52 - Unnamed',
+  perNif: boolean;
   /**
-   * slot used by SoS
+   * Seconds after which to close the viewer (0 for never)
+   *
+   * @default 0
    */
-  SoS = PelvisSecondary,
+  timeout: number;
   /**
-   * leg primary or outergarment or right leg
+   * What to do with the viewer after answering
+   *
+   * @default 'Wait'
    */
-  LegPrimary = '53 - Unnamed',
+  lifecycle: keyof typeof ViewerLifecycle;
+}
+
+/**
+ * What to do about answers for an earlier version of a changed nif.
+ *
+ * @see carryAnswers
+ */
+enum CarryAnswers {
   /**
-   * leg secondary or undergarment or left leg
+   * Treat changed nifs as new
    */
-  LegSecondary = '54 - Unnamed',
+  Off = 'Ask again',
   /**
-   * face alternate or jewelry
+   * Ask whether to keep the old answers
    */
-  FaceAlternate = '55 - Unnamed',
+  Offer = 'Offer old answers',
   /**
-   * chest secondary or undergarment
+   * Keep the old answers as "maybe" answers
    */
-  ChestSecondary = '56 - Unnamed',
+  Maybe = 'Keep old answers as "maybe"',
+}
+
+/**
+ * How to resolve conflicting answers when importing memories.
+ *
+ * @see importMemories
+ */
+enum MergePolicy {
   /**
-   * shoulder
+   * Always keep our answer
    */
-  Shoulder = '57 - Unnamed',
+  KeepOurs = 'Keep ours',
   /**
-   * arm secondary or undergarment or left arm
+   * Always take the imported answer
    */
-  ArmSecondary = '58 - Unnamed',
+  TakeTheirs = 'Take theirs',
   /**
-   * arm primary or outergarment or right arm
+   * Take the imported answer only if it is definite and ours is a "maybe"
    */
-  ArmPrimary = '59 - Unnamed',
+  PreferDefinite = 'Prefer definite over maybe',
   /**
-   * misc/FX
+   * Ask user about each conflict
    */
-  Misc60 = '60 - Unnamed',
-  FX01 = '61 - FX01',
+  Review = 'Review each conflict',
 }
 
 /**
- *
- * @todo better names?
+ * Type for this UPF patcher's setttings.
  */
-const enum KeywordType {
+interface Settings {
   /**
-   * If any part of a thing is this keyword the whole thing is.
+   * Name of the nif viewer profile to use
    *
-   * @example ArmorHelmet?
+   * @default 'OutfitStudio'
+   */
+  viewer: string;
+  /**
+   * Nif viewer profiles by name
+   */
+  viewers: { [name: string]: ViewerProfile };
+  /**
+   * Keywords to apply
    */
-  Inclusive = 1,
+  keywords: readonly string[];
   /**
-   * Only applies if everything meets keyword criteria.
+   * More rules for keywords, checked before those in their definitions
    *
-   * @example SOS_Revealing
+   * @default {}
    */
-  Exclusive = 2,
-}
-
-/**
- * Description of a keyword for the "learing" alrogirithm.
- */
-interface KeywordInfo {
+  rules: { [keyword: string]: RuleDefinition[] };
+  /**
+   * Whether to recheck "maybe" answers
+   *
+   * @default false
+   */
+  redoMaybes: boolean;
   /**
-   * The EditorID of the keword.
+   * Whether to queue undecided ARMOs for a later review session,
+   * rather than asking about them during patching.
+   *
+   * @default false
+   * @see reviewQueue
    */
-  id: string;
+  deferReview: boolean;
   /**
-   * Description to show users.
+   * Whether to only report what would be done,
+   * without applying keywords or asking anything.
+   *
+   * @default false
+   * @see reportFile
    */
-  description: string;
+  dryRun: boolean;
   /**
-   * What type of keyword this is?
+   * Whether to also check ARMOs which already have keywords,
+   * removing the keywords which we know do not apply.
+   *
+   * @default false
+   * @see auditFile
    */
-  type: KeywordType;
+  audit: boolean;
   /**
-   * Relevant slots (i.e., slots to which this keyword might apply).
+   * What to do when a nif we answered about has changed.
+   *
+   * @default 'Off'
    */
-  relevantSlots: readonly BodySlot[];
+  carryAnswers: keyof typeof CarryAnswers;
   /**
-   * Irrelevant slots (i.e., slots which can be ignored).
+   * Races to check ARMAs for, by EditorID or plugin filename (one per line)
+   *
+   * @default 'DefaultRace'
+   * @see loadRaces
    */
-  irrelevantSlots: readonly BodySlot[];
+  races: string;
   /**
-   * Slots which mean keywords should not be applied.
-   * (e.g., slot 52 for SOS_Revealing)
+   * Whether to also check ARMAs for every playable race
+   *
+   * @default false
    */
-  skipSlots: readonly BodySlot[];
-}
-
-/**
- * Known keywords.
- *
- * @todo read these from a JSON file or something so adding to it is easier.
- */
-const keywords: Record<string, KeywordInfo> = <const>{
-  SOS_Revealing: {
-    id: 'SOS_Revealing',
-    description: 'SoS revealing keyword',
-    type: KeywordType.Exclusive,
-    relevantSlots: [BodySlot.Body],
-    /**
-     * @todo add more slots to this list?
-     */
-    irrelevantSlots: [
-      BodySlot.Head,
-      BodySlot.Hair,
-      BodySlot.Hands,
-      BodySlot.Forearms,
-      BodySlot.LongHair,
-      BodySlot.Circlet,
-      BodySlot.Ears,
-    ],
-    skipSlots: [BodySlot.SoS],
-  },
-};
-
-/**
- * World model to display to user.
- */
-enum Model {
-  Male = 'Male world model\\MOD2',
-  Female = 'Female world model\\MOD3',
-}
-
-/**
- * Type for this UPF patcher's setttings.
- */
-interface Settings {
+  playableRaces: boolean;
   /**
-   * Path to program to view nifs
+   * Whether to find the body slots of ARMAs from their nifs' partitions,
+   * rather than only from their body templates.
    *
-   * @default OutfitStudio
+   * @default false
+   * @see readNif
    */
-  nifViewer: string;
+  meshSlots: boolean;
   /**
-   * Keywords to apply
+   * Whether to suggest answers from how much of the body armors cover.
+   *
+   * @default false
+   * @see KeywordInfo.coverageThreshold
    */
-  keywords: readonly string[];
+  suggestAnswers: boolean;
   /**
-   * Whether to recheck "maybe" answers
+   * Whether to answer "maybe" by ourselves when confident in a suggestion.
    *
    * @default false
    */
-  redoMaybes: boolean;
+  autoAnswer: boolean;
+  /**
+   * Confidence (0 to 1) a suggestion needs to be answered automatically.
+   *
+   * @default 0.8
+   */
+  autoAnswerConfidence: number;
   /**
    * Which model to display when asking user about keywords.
    *
+   * With `'Both'`, answers are learned for each model separately
+   * and combined by the keyword's GenderRule.
+   *
    * @default 'Female'
-   * @todo add both setting?
+   * @see GenderRule
+   */
+  displayModel: DisplayModel;
+  /**
+   * How to resolve conflicts when importing memories.
+   *
+   * @default 'KeepOurs'
+   */
+  mergePolicy: keyof typeof MergePolicy;
+  /**
+   * What to include when exporting memories.
    */
-  displayModel: keyof typeof Model;
+  export: ExportOptions;
 }
 
 /**
  * Type for this UPF patcher's locals.
  */
 interface Locals {
+  /**
+   * When this patch run started, for the answer history
+   *
+   * @see HistoryEntry.session
+   */
+  session: string;
   /**
    * Data directory
    */
   dir: string;
+  /**
+   * BSAs to look for nifs in (highest priority first)
+   */
+  archives: readonly BSA[];
   /**
    * Track nifs that match tag
    */
   taggednifs: Memories;
   /**
-   * Handle to DefaultRace record
+   * Hashes of data files from previous runs
+   */
+  hashCache: HashCache;
+  /**
+   * Hashes of data files computed (or being computed) this run
+   */
+  hashes: Map<string, Promise<string>>;
+  /**
+   * Hashes computed since the hash cache was last saved
+   */
+  unsavedHashes: number;
+  /**
+   * Nif viewer for asking user
+   */
+  viewer: NifViewer;
+  /**
+   * Reference bodies for suggesting answers (null if they failed to load)
+   *
+   * @see referenceBodies
+   */
+  bodies: { [model: string]: Nif | null };
+  /**
+   * Load order FormIDs of the races to check ARMAs for
    *
    * Used for filtering out ARMAs for creature races.
+   *
+   * @see loadRaces
    */
-  DefaultRace: RecordHandle;
+  races: Set<number>;
   /**
    * Descriptions of keywords being patched.
    *
    * @see KeywordInfo
    */
   keywords: readonly KeywordInfo[];
+  /**
+   * Descriptions of all known keywords (built-in and user defined).
+   *
+   * @see loadKeywords
+   */
+  knownKeywords: Record<string, KeywordInfo>;
   /**
    * Handles to our created KYWD records.
    */
   kywds: RecordHandle[];
+  /**
+   * EditorIDs of every ARMO checked this run
+   */
+  checked: Set<string>;
+  /**
+   * ARMOs to review later
+   *
+   * @see Settings.deferReview
+   */
+  queue: QueuedArmor[];
+  /**
+   * Dry run report by EditorID
+   *
+   * @see Settings.dryRun
+   */
+  report: { [editorid: string]: ArmorReport };
+  /**
+   * Keywords removed by audit mode
+   *
+   * @see Settings.audit
+   */
+  removals: Removal[];
+  /**
+   * EditorIDs of the base armors of variants sharing their ARMAs
+   *
+   * @see templateBase
+   */
+  templates: { [editorid: string]: string };
+  /**
+   * Decisions about keywords of base armors by EditorID
+   *
+   * Variants get the same decisions.
+   */
+  decisions: {
+    [editorid: string]: {
+      [keyword: string]: { apply?: boolean; reason: string };
+    };
+  };
+  /**
+   * Keywords of variants to decide like their base armors
+   */
+  variants: Variant[];
+  /**
+   * Variants with different ARMAs than their base armors
+   */
+  divergences: Divergence[];
+  /**
+   * ARMOs asked about this run by question
+   *
+   * Includes the decision once the user has answered.
+   *
+   * @see questionKey
+   */
+  questions: { [key: string]: { editorid: string; apply?: boolean } };
+  /**
+   * Keywords decided by rules (other than Skip) by EditorID
+   *
+   * @see KeywordInfo.rules
+   */
+  ruled: {
+    [editorid: string]: {
+      [keyword: string]: { action: RuleAction; reason: string };
+    };
+  };
   /**
    * List of keywords that need patching.
    */
@@ -336,22 +743,87 @@ interface Locals {
 /**
  * Load memories from a file.
  *
+ * Older file versions are migrated to the current one.
+ *
  * @see Memories
- * @todo validate format
+ * @throws if file is not valid
  */
 function loadMemories(filename: string = memoryFile): Memories {
-  // loadJsonFile seems to return undefined despite my default of {}?
-  const contents: unknown = fh.loadJsonFile(filename, {}) ?? {};
+  if (!existsSync(filename)) {
+    return { nifs: {}, constraints: [] };
+  }
 
-  return contents as Memories;
+  try {
+    return migrateMemories(JSON.parse(readFileSync(filename, 'utf8')));
+  } catch (err) {
+    throw new Error(`Invalid memory file ${filename}: ${err.message}`);
+  }
 }
 /**
  * Save memories to a file.
  *
+ * Makes a backup of the previous contents first.
+ *
  * @see Memories
  */
 function saveMemories(memories: Memories, filename: string = memoryFile): void {
-  fh.saveJsonFile(filename, memories as any);
+  if (existsSync(filename)) {
+    copyFileSync(filename, `${filename}.bak`);
+  }
+
+  const contents: MemoryFile = { version: memoryVersion, ...memories };
+  fh.saveJsonFile(filename, contents as any);
+}
+
+/**
+ * @internal
+ */
+function invalidMergePolicy(policy: never): never {
+  throw new Error(`Invalid merge policy: ${policy}`);
+}
+
+/**
+ * Get the function deciding a conflict for a policy.
+ *
+ * @returns function which returns true if their answer should be taken
+ */
+function conflictResolver(
+  policy: MergePolicy
+): (conflict: MergeConflict) => boolean {
+  switch (policy) {
+    case MergePolicy.KeepOurs:
+      return () => false;
+    case MergePolicy.TakeTheirs:
+      return () => true;
+    case MergePolicy.PreferDefinite:
+      return ({ ours, theirs }) => isMaybe(ours) && !isMaybe(theirs);
+    case MergePolicy.Review:
+      return ({ filenames, keyword, ours, theirs }) => {
+        enum Resolution {
+          'Keep ours' = 0,
+          'Take theirs',
+          'Cancel',
+        }
+        const buttons = Object.keys(Resolution).filter((k) => isNaN(+k));
+        const choice = (dialog.showMessageBox({
+          // @ts-ignore
+          type: 'question',
+          title: 'Conflicting memories',
+          message: `Conflicting ${keyword} answers`,
+          detail: `${filenames.join('\n')}\n\nOurs: ${
+            answerNames[ours]
+          }\nTheirs: ${answerNames[theirs]}`,
+          buttons,
+        }) as unknown) as Resolution;
+
+        if (choice === Resolution['Cancel']) {
+          throw new Error('Cancelled by user');
+        }
+        return choice === Resolution['Take theirs'];
+      };
+    default:
+      return invalidMergePolicy(policy);
+  }
 }
 
 /**
@@ -360,8 +832,9 @@ function saveMemories(memories: Memories, filename: string = memoryFile): void {
  *
  * @see Memories
  * @see memoryFile
+ * @see MergePolicy
  */
-function importMemories() {
+function importMemories(policy: MergePolicy = MergePolicy.KeepOurs) {
   // Ask user for a file
   const filename = fh.selectFile(`${info.name} Memory Files`, '', [
     { name: 'JSON files', extensions: ['json'] },
@@ -370,40 +843,1072 @@ function importMemories() {
     return;
   }
 
-  // Load memories
-  const memories = loadMemories();
-  const newMemories = loadMemories(filename);
-
-  // Merge memories, preferring old ones if conflict
-  for (const hash in newMemories) {
-    const { filenames, keywords } = newMemories[hash]!;
-    const memory = memories[hash];
-
-    if (!memory) {
-      // Hash is new to us
-      memories[hash] = { filenames, keywords };
-      continue;
-    }
+  let summary: MergeSummary;
+  let memories: Memories;
+  try {
+    // Load memories
+    memories = loadMemories();
+    const newMemories = loadMemories(filename);
 
-    // Merge our memory of this hash with new one
-    memories[hash] = {
-      // Union of filenames
-      filenames: [...new Set([...memory.filenames, ...filenames])],
-      // Merge keyword answers, preferring ours on conflict
-      keywords: Object.assign(keywords, memory.keywords),
-    };
+    summary = mergeMemories(memories, newMemories, conflictResolver(policy));
+  } catch (err) {
+    dialog.showErrorBox('Could not import memories', err.message);
+    return;
   }
 
   // Save new combined memories
   saveMemories(memories);
+
+  // Tell user what happened
+  const { addedNifs, addedAnswers, changed, skipped } = summary;
+  const describe = ({ filenames, keyword, ours, theirs }: MergeConflict) =>
+    `${keyword} ${filenames[0]} (ours ${answerNames[ours]}, ` +
+    `theirs ${answerNames[theirs]})`;
+  dialog.showMessageBox({
+    // @ts-ignore
+    type: 'info',
+    title: 'Imported memories',
+    message:
+      `Added ${addedAnswers} answers (${addedNifs} new nifs), ` +
+      `changed ${changed.length}, kept ${skipped.length} of ours`,
+    detail: [
+      ...changed.map((c) => `Changed ${describe(c)}`),
+      ...skipped.map((c) => `Kept ${describe(c)}`),
+    ].join('\n'),
+  });
 }
 
 /**
- * Open the docs of this patcher in a browser.
+ * Find the nifs used by the ARMAs of some plugins.
+ *
+ * @param plugins Filenames of plugins, one per line
+ * @returns Normalized paths of the nifs, or undefined if no plugins given
+ * @throws if a plugin is not loaded
  */
-function openDocs(page: string = 'index') {
-  fh.openUrl(`${patcherUrl}/docs/${page}.html`);
-}
+function findPluginNifs(plugins: string): Set<string> | undefined {
+  const filenames = plugins
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => !!line);
+  if (filenames.length === 0) {
+    return undefined;
+  }
+
+  const nifs = new Set<string>();
+  filenames.forEach((filename) => {
+    const file = xelib.FileByName(filename);
+    if (!file) {
+      throw new Error(`Plugin ${filename} is not loaded`);
+    }
+    xelib.GetRecords(file, 'ARMA').forEach((arma) =>
+      Object.values(Model).forEach((model) => {
+        const nif = xelib.GetValue(arma, model);
+        if (nif) {
+          nifs.add(normalizePath(`meshes\\${nif}`));
+        }
+      })
+    );
+  });
+
+  return nifs;
+}
+
+/**
+ * Ask user for a file,
+ * then save the selected parts of our memories to it.
+ *
+ * @see filterMemories
+ * @see importMemories
+ */
+function exportMemories(options: Partial<ExportOptions> = {}) {
+  const selected = { ...defaultExportOptions, ...options };
+  let memories: Memories;
+  try {
+    memories = filterMemories(
+      loadMemories(),
+      selected,
+      findPluginNifs(selected.plugins)
+    );
+  } catch (err) {
+    dialog.showErrorBox('Could not export memories', err.message);
+    return;
+  }
+
+  // Ask user for a file
+  const filename = fh.saveFile(`${info.name} Memory Files`, '', [
+    { name: 'JSON files', extensions: ['json'] },
+  ]);
+  if (!filename) {
+    return;
+  }
+
+  saveMemories(memories, filename);
+
+  dialog.showMessageBox({
+    // @ts-ignore
+    type: 'info',
+    title: 'Exported memories',
+    message:
+      `Exported ${Object.keys(memories.nifs).length} nifs ` +
+      `and ${memories.constraints.length} constraints`,
+  });
+}
+
+/**
+ * Undo the answers from the history selected by `select`,
+ * then tell user what happened.
+ *
+ * @see undoAnswers
+ */
+function undoHistory(
+  select: (history: readonly HistoryEntry[]) => HistoryEntry[],
+  redoMaybes: boolean
+) {
+  let undo: HistoryEntry[];
+  try {
+    const memories = loadMemories();
+    const history = loadHistory();
+    undo = select(history.filter(({ undone }) => !undone));
+    if (undo.length === 0) {
+      return;
+    }
+
+    const record = undoAnswers(
+      memories,
+      history,
+      undo,
+      loadKeywords().keywords,
+      redoMaybes
+    );
+
+    saveMemories(memories);
+    appendHistoryLines([record]);
+  } catch (err) {
+    dialog.showErrorBox('Could not undo answers', err.message);
+    return;
+  }
+
+  dialog.showMessageBox({
+    // @ts-ignore
+    type: 'info',
+    title: 'Undid answers',
+    message: `Undid ${undo.length} answers`,
+    detail: undo
+      .map(({ time, editorid, keyword, model, choice, hashes }) =>
+        choice
+          ? `${time} ${editorid} ${keyword} (${model}): ${choice}`
+          : `${time} edited ${keyword} for ${hashes.length} nifs`
+      )
+      .join('\n'),
+  });
+}
+
+/**
+ * Find the BSAs loaded along with the plugins.
+ *
+ * Archives are loaded for a plugin if named after it
+ * (e.g., `Foo.bsa` or `Foo - Textures.bsa` for `Foo.esp`).
+ *
+ * @returns Archives in priority order (highest first)
+ */
+function loadArchives(dir: string): BSA[] {
+  const bsas = readdirSync(dir).filter((file) =>
+    file.toLowerCase().endsWith('.bsa')
+  );
+
+  const archives: BSA[] = [];
+  for (const plugin of xelib.GetLoadedFileNames(true)) {
+    const base = plugin.replace(/\.es[lmp]$/i, '').toLowerCase();
+    bsas
+      .filter((bsa) => {
+        const name = bsa.toLowerCase();
+        return name === `${base}.bsa` || name.startsWith(`${base} - `);
+      })
+      .sort()
+      .forEach((bsa) => archives.unshift(readBSA(dir + bsa)));
+  }
+
+  return archives;
+}
+
+/**
+ * JSON file caching the hashes of data files between runs.
+ *
+ * @see HashCache
+ */
+const hashCacheFile = 'MechanicalTurkeyz.hashes.json';
+
+/**
+ * Load the hash cache (empty if missing).
+ */
+function loadHashCache(): HashCache {
+  return fh.loadJsonFile(hashCacheFile, {}) ?? {};
+}
+/**
+ * Save the hash cache.
+ */
+function saveHashCache(cache: HashCache): void {
+  fh.saveJsonFile(hashCacheFile, cache as any);
+}
+
+/**
+ * How many new hashes to compute before saving the hash cache mid-run,
+ * so a run that fails or is cancelled still keeps most of its work.
+ */
+const hashCacheInterval = 100;
+
+/**
+ * Describe a suggestion for a model for logs and reports.
+ */
+function describeSuggestion(
+  model: string,
+  { choice, reason }: Suggestion
+): string {
+  return `${model} model suggested ${choice} (${reason})`;
+}
+
+/**
+ * A keyword to ask user about.
+ */
+interface PendingKeyword extends Pick<KeywordInfo, 'id' | 'description'> {
+  /**
+   * Models to ask about
+   */
+  models: readonly (keyof typeof Model)[];
+  /**
+   * Suggested answers for the models
+   */
+  suggestions?: { [model: string]: Suggestion };
+}
+
+/**
+ * What to show user when asking about an ARMO.
+ *
+ * @see reviewArmor
+ */
+interface ArmorReview {
+  editorid: string;
+  name: string;
+  /**
+   * Filename of plugin with the winning override
+   */
+  plugin: string;
+  /**
+   * Enabled body slots
+   */
+  slots: readonly string[];
+  /**
+   * Keywords to ask about
+   */
+  keywords: readonly PendingKeyword[];
+}
+
+/**
+ * Show one of our partials as a modal over zEdit.
+ *
+ * The partial's scope gets `data` and a `close(result)` function.
+ *
+ * @returns Promise of the value passed to `close`
+ */
+function showModal<T>(partial: string, data: object): Promise<T | undefined> {
+  const injector = angular.element(document.body).injector();
+  const $compile = injector.get('$compile');
+  const $rootScope = injector.get('$rootScope');
+
+  return new Promise((resolve) => {
+    const scope = $rootScope.$new(true);
+    Object.assign(scope, data, {
+      templateUrl: `${patcherUrl}/partials/${partial}.html`,
+    });
+    const element = $compile('<div ng-include="templateUrl"></div>')(scope);
+    scope.close = (result?: T) => {
+      element.remove();
+      scope.$destroy();
+      resolve(result);
+    };
+
+    document.body.appendChild(element[0]);
+    scope.$applyAsync();
+  });
+}
+
+/**
+ * Ask user about every pending keyword of an ARMO at once.
+ *
+ * Keywords left unanswered should be treated as skipped.
+ * Only for the review session, not while patching.
+ *
+ * @returns User's choice for each keyword and model
+ * @throws if user cancels
+ */
+async function reviewArmor(
+  armor: ArmorReview
+): Promise<{ [keyword: string]: { [model: string]: Choice } }> {
+  const choices = await showModal<{
+    [keyword: string]: { [model: string]: Choice };
+  }>('review', {
+    armor,
+    choiceNames: Object.values(Choice),
+    // Start from the suggested answers
+    choices: Object.fromEntries(
+      armor.keywords.map(({ id, suggestions = {} }) => [
+        id,
+        Object.fromEntries(
+          Object.entries(suggestions).map(([model, { choice }]) => [
+            model,
+            choice,
+          ])
+        ),
+      ])
+    ),
+  });
+
+  if (!choices) {
+    throw new Error('Cancelled by user');
+  }
+  return choices;
+}
+
+/**
+ * Ask user about every pending keyword of an ARMO with native dialogs,
+ * one keyword and model at a time.
+ *
+ * Used while patching, since zEdit's progress modal blocks input
+ * to the main window (and so to our modal).
+ *
+ * @returns User's choice for each keyword and model
+ * @throws if user cancels
+ * @see reviewArmor
+ */
+function askArmor(
+  armor: ArmorReview
+): { [keyword: string]: { [model: string]: Choice } } {
+  const choiceNames = Object.values(Choice);
+  const buttons = [...choiceNames, 'Cancel'];
+
+  const choices: { [keyword: string]: { [model: string]: Choice } } = {};
+  armor.keywords.forEach(({ id, description, models, suggestions = {} }) => {
+    choices[id] = {};
+    models.forEach((model) => {
+      const suggestion = suggestions[model];
+      const choice = (dialog.showMessageBox({
+        // @ts-ignore
+        type: 'question',
+        title: armor.editorid,
+        message: `Apply ${id}${models.length > 1 ? ` (${model} model)` : ''}?`,
+        detail: [
+          `${armor.name} (${armor.plugin})`,
+          `Body slots: ${armor.slots.join(', ')}`,
+          description,
+          ...(suggestion
+            ? [`Suggested ${suggestion.choice} (${suggestion.reason})`]
+            : []),
+        ].join('\n'),
+        buttons,
+        defaultId: suggestion ? choiceNames.indexOf(suggestion.choice) : 0,
+        cancelId: buttons.length - 1,
+      }) as unknown) as number;
+
+      if (choice >= choiceNames.length) {
+        throw new Error('Cancelled by user');
+      }
+      choices[id][model] = choiceNames[choice];
+    });
+  });
+
+  return choices;
+}
+
+/**
+ * Collect the information about an ARMO to show user.
+ *
+ * @see askArmor
+ * @see reviewArmor
+ */
+function describeArmor(
+  armo: RecordHandle,
+  plugin: string,
+  keywords: readonly KeywordInfo[],
+  questions: {
+    [keyword: string]: Pick<PendingKeyword, 'models' | 'suggestions'>;
+  }
+): ArmorReview {
+  const bod = getBodyTemplate(armo);
+
+  return {
+    editorid: xelib.EditorID(armo),
+    name: xelib.FullName(armo),
+    plugin,
+    slots: bod === 0 ? [] : xelib.GetEnabledFlags(bod, 'First Person Flags'),
+    keywords: keywords.map(({ id, description }) => ({
+      id,
+      description,
+      ...questions[id],
+    })),
+  };
+}
+
+/**
+ * A nif viewer shared by the ARMOs of a session.
+ *
+ * @see openViewer
+ */
+interface NifViewer {
+  /**
+   * Show the nifs of an ARMO.
+   *
+   * @param nifs Paths relative to the Data folder
+   */
+  show(nifs: readonly string[]): void;
+  /**
+   * Finish with the current ARMO according to the profile's lifecycle.
+   *
+   * @returns Promise which resolves once the viewer can be used again
+   */
+  done(): Promise<void>;
+  /**
+   * Close any open viewers.
+   */
+  close(): void;
+}
+
+/**
+ * Prepare to launch nif viewers for a profile.
+ *
+ * @param report Called when a viewer fails to start or exits with an error
+ */
+function openViewer(
+  profile: ViewerProfile,
+  dir: string,
+  archives: readonly BSA[],
+  report: (err: Error) => void
+): NifViewer {
+  const { args, perNif, timeout, lifecycle } = profile;
+  const cwd = profile.cwd.replace(/{dir}/g, dir);
+  const exe =
+    isAbsolute(profile.exe) || !existsSync(join(cwd, profile.exe))
+      ? profile.exe
+      : join(cwd, profile.exe);
+
+  let running: { child: ChildProcess; exited: Promise<void> }[] = [];
+  let shown = '';
+
+  /**
+   * Launch one viewer for some (extracted) nifs.
+   */
+  function launch(nifs: readonly string[]) {
+    const argv = args.flatMap((arg) =>
+      arg.includes('{nif}')
+        ? nifs.map((nif) => arg.replace(/{nif}/g, nif).replace(/{dir}/g, dir))
+        : [arg.replace(/{dir}/g, dir)]
+    );
+
+    let settle: (err: Error | null) => void = () => undefined;
+    const exited = Promise.fromCallback<void>((cb) => (settle = cb));
+    const child = execFile(exe, argv, { cwd, timeout: timeout * 1000 }, (err) =>
+      // Being closed (by us or timeout) is not an error
+      settle(err && !err.killed ? err : null)
+    );
+    running.push({
+      child,
+      // Report problems even when nobody waits for the viewer
+      exited: exited.catch((err: Error) => report(err)),
+    });
+  }
+
+  function close() {
+    running.forEach(({ child }) => child.kill());
+    running = [];
+    shown = '';
+  }
+
+  return {
+    show(nifs) {
+      // Models may share nifs
+      const unique = nifs.filter((nif, i) => nifs.indexOf(nif) === i);
+
+      if (
+        lifecycle === 'Reuse' &&
+        running.length > 0 &&
+        shown === unique.join('\n')
+      ) {
+        // Already showing these
+        return;
+      }
+      close();
+
+      // Loose nifs are relative to Data folder, not the working directory
+      const extracted = unique
+        .map((nif) => extractDataFile(dir, archives, nif))
+        .map((nif) => (isAbsolute(nif) ? nif : dir + nif));
+      if (perNif) {
+        extracted.forEach((nif) => launch([nif]));
+      } else {
+        launch(extracted);
+      }
+      shown = unique.join('\n');
+    },
+    async done() {
+      switch (lifecycle) {
+        case 'Wait':
+          await Promise.all(running.map(({ exited }) => exited));
+          running = [];
+          break;
+        case 'Close':
+          close();
+          break;
+        case 'Reuse':
+          // Wait to see the next ARMO's nifs
+          break;
+      }
+    },
+    close,
+  };
+}
+
+/**
+ * Nif viewer profiles to start with.
+ */
+const defaultViewers: Settings['viewers'] = {
+  OutfitStudio: {
+    exe: 'CalienteTools/BodySlide/OutfitStudio x64.exe',
+    args: ['{nif}'],
+    cwd: '{dir}',
+    perNif: false,
+    timeout: 0,
+    lifecycle: 'Wait',
+  },
+  NifSkope: {
+    exe: 'NifSkope.exe',
+    args: ['{nif}'],
+    cwd: '{dir}',
+    perNif: true,
+    timeout: 0,
+    lifecycle: 'Wait',
+  },
+  Custom: {
+    exe: '',
+    args: ['{nif}'],
+    cwd: '{dir}',
+    perNif: false,
+    timeout: 0,
+    lifecycle: 'Wait',
+  },
+};
+
+/**
+ * Settings saved by earlier versions of the patcher.
+ */
+interface LegacySettings {
+  /**
+   * Path to program to view nifs, before viewer profiles
+   */
+  nifViewer?: string;
+}
+
+/**
+ * Bring settings saved by earlier versions up to date.
+ */
+function upgradeSettings(settings: Settings & LegacySettings): void {
+  if (settings.nifViewer !== undefined) {
+    // Keep the program they chose as the default profile
+    settings.viewers ??= JSON.parse(JSON.stringify(defaultViewers));
+    settings.viewer ??= 'OutfitStudio';
+    settings.viewers.OutfitStudio = {
+      ...defaultViewers.OutfitStudio,
+      ...settings.viewers.OutfitStudio,
+      exe: settings.nifViewer,
+    };
+    delete settings.nifViewer;
+  }
+  // Saved before rules could be set here
+  settings.rules ??= {};
+}
+
+/**
+ * JSON file for ARMOs waiting to be reviewed.
+ *
+ * @see Settings.deferReview
+ */
+const queueFile = 'MechanicalTurkeyz.queue.json';
+
+/**
+ * An ARMO the patcher could not decide about by itself.
+ *
+ * @see reviewQueue
+ */
+interface QueuedArmor {
+  /**
+   * What to show user
+   */
+  review: ArmorReview;
+  /**
+   * Nifs of each displayed model
+   */
+  models: ModelNifs[];
+  /**
+   * Questions asked about each keyword, to answer ARMOs with the same nifs
+   * the same way
+   *
+   * @see questionKey
+   */
+  questions?: { [keyword: string]: string };
+}
+
+/**
+ * Bring an ARMO queued by an older version up to date.
+ *
+ * Versions before per-model answers only queued the nifs of one model,
+ * versions before slots did not record the body slots of the nifs,
+ * and versions before rules described suggestions by their coverage.
+ *
+ * @param model Model the older versions were displaying
+ * @returns undefined if entry is not a queued ARMO
+ */
+function migrateQueuedArmor(
+  entry: unknown,
+  model: keyof typeof Model
+): QueuedArmor | undefined {
+  if (!isObject(entry) || !isObject(entry.review)) {
+    return undefined;
+  }
+  const { review, models, nifs, hashes, relevantHashes, questions } = entry;
+  if (!Array.isArray(review.keywords)) {
+    return undefined;
+  }
+
+  let migrated: ModelNifs[];
+  if (Array.isArray(models)) {
+    migrated = (models as ModelNifs[]).map(({ slots = {}, ...nifs }) => ({
+      ...nifs,
+      slots,
+    }));
+  } else if (
+    Array.isArray(nifs) &&
+    Array.isArray(hashes) &&
+    isObject(relevantHashes)
+  ) {
+    migrated = [
+      {
+        model,
+        nifs,
+        hashes,
+        relevantHashes: relevantHashes as ModelNifs['relevantHashes'],
+        slots: {},
+      },
+    ];
+  } else {
+    return undefined;
+  }
+
+  /**
+   * Queued keyword in any older format.
+   */
+  interface OldPendingKeyword
+    extends Pick<PendingKeyword, 'id' | 'description'> {
+    models?: PendingKeyword['models'];
+    suggestions?: {
+      [model: string]: Omit<Suggestion, 'reason'> &
+        Partial<Pick<Suggestion, 'reason'>> & { coverage?: number };
+    };
+  }
+  const keywords = (review.keywords as OldPendingKeyword[]).map(
+    ({ models = [model], suggestions = {}, ...keyword }) => ({
+      ...keyword,
+      models,
+      suggestions: Object.fromEntries(
+        Object.entries(suggestions).map(
+          ([model, { coverage = 0, reason, ...suggestion }]) => [
+            model,
+            {
+              ...suggestion,
+              reason:
+                reason ?? `${Math.round(coverage * 100)}% of body covered`,
+            },
+          ]
+        )
+      ),
+    })
+  );
+
+  return {
+    review: { ...((review as unknown) as ArmorReview), keywords },
+    models: migrated,
+    questions: isObject(questions)
+      ? (questions as QueuedArmor['questions'])
+      : undefined,
+  };
+}
+
+/**
+ * Load the ARMOs waiting for review.
+ *
+ * ARMOs queued by older versions are migrated,
+ * anything unrecognizable is dropped for the next patch run to queue again.
+ *
+ * @param displayModel Model the queue was made with
+ * @see migrateQueuedArmor
+ */
+function loadQueue(displayModel: DisplayModel = 'Female'): QueuedArmor[] {
+  const queue: unknown = fh.loadJsonFile(queueFile, []) ?? [];
+  if (!Array.isArray(queue)) {
+    return [];
+  }
+
+  const model = displayModel === 'Both' ? 'Female' : displayModel;
+  return queue
+    .map((entry) => migrateQueuedArmor(entry, model))
+    .filter((entry): entry is QueuedArmor => !!entry);
+}
+/**
+ * Save the ARMOs waiting for review.
+ */
+function saveQueue(queue: readonly QueuedArmor[]): void {
+  fh.saveJsonFile(queueFile, queue as any);
+}
+
+/**
+ * Walk user through the queued ARMOs, learning from their answers.
+ *
+ * The next patch run applies what was learned.
+ * Progress is saved after each ARMO, so the session can be stopped anytime.
+ *
+ * @see Settings.deferReview
+ */
+async function reviewQueue({
+  viewer,
+  viewers,
+  redoMaybes,
+  displayModel,
+}: Settings) {
+  const dir = xelib.GetGlobal('DataPath');
+  const archives = loadArchives(dir);
+  if (!viewers[viewer]) {
+    dialog.showErrorBox(
+      'Review stopped',
+      `No nif viewer profile named ${viewer}`
+    );
+    return;
+  }
+  const nifViewer = openViewer(viewers[viewer], dir, archives, (err) =>
+    dialog.showErrorBox('Nif viewer failed', err.message)
+  );
+  const { keywords } = loadKeywords();
+  const memories = loadMemories();
+  const queue = loadQueue(displayModel);
+  const session = new Date().toISOString();
+
+  // Choices for each question this session, to reuse for the same nifs
+  const answered: { [key: string]: { [model: string]: Choice } } = {};
+
+  let reviewed = 0;
+  try {
+    while (queue.length > 0) {
+      const { review, models, questions = {} } = queue[0];
+
+      // Answer like an ARMO with the same nifs reviewed earlier
+      const repeated = review.keywords.filter(
+        ({ id }) => keywords[id] && answered[questions[id]]
+      );
+      if (repeated.length > 0) {
+        const choices = Object.fromEntries(
+          repeated.map(({ id }) => [id, answered[questions[id]]])
+        );
+        const { changes } = learnAnswers(
+          memories,
+          repeated.map(({ id }) => keywords[id]),
+          choices,
+          models,
+          redoMaybes
+        );
+        saveMemories(memories);
+        appendHistory(session, review, choices, models, changes);
+      }
+
+      // Earlier answers may have decided some keywords already
+      const pending = review.keywords
+        .filter(({ id }) => keywords[id] && !repeated.some((k) => k.id === id))
+        .map((keyword) => ({
+          ...keyword,
+          ...inferModels(memories, keywords[keyword.id], models, redoMaybes),
+        }))
+        .filter(({ apply }) => apply === undefined)
+        .map(({ id, description, ask, suggestions }) => ({
+          id,
+          description,
+          models: ask,
+          suggestions,
+        }));
+
+      if (pending.length > 0) {
+        const nifs = models.flatMap(({ nifs }) => nifs);
+        nifViewer.show(nifs);
+        const choices = await reviewArmor({ ...review, keywords: pending });
+        pending.forEach(({ id }) => {
+          if (questions[id] && choices[id]) {
+            answered[questions[id]] = choices[id];
+          }
+        });
+
+        const { changes } = learnAnswers(
+          memories,
+          pending.map(({ id }) => keywords[id]),
+          choices,
+          models,
+          redoMaybes
+        );
+        saveMemories(memories);
+        appendHistory(session, review, choices, models, changes);
+        reviewed++;
+
+        await nifViewer.done();
+      }
+
+      queue.shift();
+      saveQueue(queue);
+    }
+  } catch (err) {
+    dialog.showErrorBox('Review stopped', err.message);
+  } finally {
+    nifViewer.close();
+
+    // Remove any nifs we extracted for the viewer
+    if (existsSync(extractDir)) {
+      rmdirSync(extractDir, { recursive: true });
+    }
+  }
+
+  dialog.showMessageBox({
+    // @ts-ignore
+    type: 'info',
+    title: 'Review finished',
+    message: `Reviewed ${reviewed} armors, ${queue.length} left in queue`,
+  });
+}
+
+/**
+ * What the patcher did (or would do) about a keyword for an ARMO.
+ *
+ * @see ArmorReport
+ */
+enum Decision {
+  /**
+   * Keyword applied based on what we know
+   */
+  Apply = 'apply',
+  /**
+   * Keyword left off based on what we know
+   */
+  Leave = 'leave',
+  /**
+   * Existing keyword removed based on what we know
+   *
+   * @see Settings.audit
+   */
+  Remove = 'remove',
+  /**
+   * Need to ask user
+   */
+  Ask = 'ask',
+  /**
+   * Keyword not considered for this ARMO
+   */
+  Skip = 'skip',
+}
+
+/**
+ * Dry run report about an ARMO.
+ *
+ * @see Settings.dryRun
+ */
+interface ArmorReport {
+  editorid: string;
+  /**
+   * Filename of plugin with the winning override
+   */
+  plugin: string;
+  /**
+   * Paths of the nifs (relative to Data folder)
+   */
+  nifs: string[];
+  /**
+   * Hashes of the nifs
+   */
+  hashes: string[];
+  /**
+   * What was decided about each keyword and why
+   */
+  keywords: { keyword: string; decision: Decision; reason: string }[];
+}
+
+/**
+ * Files (without extension) for the dry run report.
+ *
+ * @see saveReport
+ */
+const reportFile = 'MechanicalTurkeyz.report';
+
+/**
+ * Quote a value for a CSV file.
+ */
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Save rows of values as a CSV file.
+ */
+function saveCsv(filename: string, rows: readonly string[][]): void {
+  fh.saveTextFile(
+    filename,
+    rows.map((row) => row.map(csvField).join(',')).join('\r\n')
+  );
+}
+
+/**
+ * Save dry run report as both JSON and CSV.
+ *
+ * The CSV has one row per ARMO and keyword.
+ *
+ * @see reportFile
+ */
+function saveReport(report: readonly ArmorReport[]): void {
+  fh.saveJsonFile(`${reportFile}.json`, report as any);
+
+  saveCsv(`${reportFile}.csv`, [
+    ['EditorID', 'Plugin', 'Keyword', 'Decision', 'Reason', 'Nifs', 'Hashes'],
+    ...report.flatMap(({ editorid, plugin, nifs, hashes, keywords }) =>
+      keywords.map(({ keyword, decision, reason }) => [
+        editorid,
+        plugin,
+        keyword,
+        decision,
+        reason,
+        nifs.join(';'),
+        hashes.join(';'),
+      ])
+    ),
+  ]);
+}
+
+/**
+ * An existing keyword removed from an ARMO by audit mode.
+ *
+ * @see Settings.audit
+ */
+interface Removal {
+  editorid: string;
+  /**
+   * Filename of plugin with the winning override
+   */
+  plugin: string;
+  keyword: string;
+  /**
+   * Why it was removed
+   */
+  reason: string;
+}
+
+/**
+ * CSV file logging keywords removed by audit mode.
+ *
+ * @see Settings.audit
+ */
+const auditFile = 'MechanicalTurkeyz.audit.csv';
+
+/**
+ * Save the log of removed keywords.
+ *
+ * @see auditFile
+ */
+function saveRemovals(removals: readonly Removal[]): void {
+  saveCsv(auditFile, [
+    ['EditorID', 'Plugin', 'Keyword', 'Reason'],
+    ...removals.map(({ editorid, plugin, keyword, reason }) => [
+      editorid,
+      plugin,
+      keyword,
+      reason,
+    ]),
+  ]);
+}
+
+/**
+ * Keyword of a variant ARMO to decide like its base armor.
+ *
+ * @see templateBase
+ */
+interface Variant {
+  /**
+   * Load order FormID of the variant
+   */
+  formid: number;
+  editorid: string;
+  /**
+   * Filename of plugin with the winning override
+   */
+  plugin: string;
+  /**
+   * EditorID of the base armor
+   */
+  base: string;
+  keyword: string;
+}
+
+/**
+ * Variant ARMO whose ARMAs differ from its base armor.
+ *
+ * @see templateBase
+ */
+interface Divergence {
+  editorid: string;
+  /**
+   * Filename of plugin with the winning override
+   */
+  plugin: string;
+  /**
+   * EditorID of the base armor
+   */
+  base: string;
+  /**
+   * EditorIDs of ARMAs only the variant has
+   */
+  extra: string[];
+  /**
+   * EditorIDs of ARMAs only the base armor has
+   */
+  missing: string[];
+}
+
+/**
+ * CSV file logging variants that diverge from their base armors.
+ */
+const templatesFile = 'MechanicalTurkeyz.templates.csv';
+
+/**
+ * Save the log of divergent variants.
+ *
+ * @see templatesFile
+ */
+function saveDivergences(divergences: readonly Divergence[]): void {
+  saveCsv(templatesFile, [
+    ['EditorID', 'Plugin', 'Base', 'Extra ARMAs', 'Missing ARMAs'],
+    ...divergences.map(({ editorid, plugin, base, extra, missing }) => [
+      editorid,
+      plugin,
+      base,
+      extra.join(';'),
+      missing.join(';'),
+    ]),
+  ]);
+}
+
+/**
+ * Open the docs of this patcher in a browser.
+ */
+function openDocs(page: string = 'index') {
+  fh.openUrl(`${patcherUrl}/docs/${page}.html`);
+}
 
 registerPatcher<Locals, Settings>({
   info: info,
@@ -413,44 +1918,320 @@ registerPatcher<Locals, Settings>({
     templateUrl: `${patcherUrl}/partials/settings.html`,
     // Angular gets mad if you use shorthand notation for the controller
     controller: function ($scope: any) {
+      upgradeSettings($scope.settings.MechanicalTurkeyz);
+
+      /**
+       * (Re)load keyword definitions for the settings page.
+       */
+      function reloadKeywords() {
+        const { keywords, errors } = loadKeywords();
+        $scope.knownKeywords = Object.keys(keywords).sort();
+        $scope.keywordErrors = errors;
+      }
+
+      /**
+       * (Re)load memories into the memory browser.
+       */
+      function loadBrowser() {
+        try {
+          const memories = loadMemories();
+          Object.assign($scope.browser, {
+            memories,
+            rows: memoryRows(memories),
+            edits: { answers: {}, forget: [] },
+            changed: false,
+          });
+        } catch (err) {
+          dialog.showErrorBox('Could not load memories', err.message);
+        }
+      }
+
+      /**
+       * Get the answers shown in the memory browser.
+       */
+      function shownRows(): MemoryRow[] {
+        return $scope.browser.rows.filter((row: MemoryRow) =>
+          matchesMemoryFilter(row, $scope.browser.filter)
+        );
+      }
+
+      /**
+       * (Re)load the sessions in the answer history.
+       */
+      function reloadSessions() {
+        $scope.sessions = historySessions(loadHistory());
+        $scope.undo.session = $scope.sessions[0]?.session;
+      }
+
       // Add callbacks
-      $scope.importMemories = importMemories;
+      $scope.addRule = (keyword: string) => {
+        const { rules } = $scope.settings.MechanicalTurkeyz as Settings;
+        (rules[keyword] ??= []).push({ action: 'Skip' });
+      };
+      $scope.removeRule = (keyword: string, index: number) => {
+        const { rules } = $scope.settings.MechanicalTurkeyz as Settings;
+        rules[keyword].splice(index, 1);
+        if (rules[keyword].length === 0) {
+          delete rules[keyword];
+        }
+      };
+      $scope.importMemories = () =>
+        importMemories(
+          MergePolicy[
+            $scope.settings.MechanicalTurkeyz
+              .mergePolicy as keyof typeof MergePolicy
+          ]
+        );
+      $scope.exportMemories = () =>
+        exportMemories($scope.settings.MechanicalTurkeyz.export);
       $scope.openDocs = openDocs;
+      $scope.reviewQueue = () =>
+        reviewQueue($scope.settings.MechanicalTurkeyz).then(() => {
+          $scope.queueLength = loadQueue(
+            $scope.settings.MechanicalTurkeyz.displayModel
+          ).length;
+          $scope.$applyAsync();
+        });
+      $scope.reloadKeywords = reloadKeywords;
+      $scope.undoLast = () => {
+        const { count } = $scope.undo;
+        if (!Number.isInteger(count) || count < 1) {
+          dialog.showErrorBox(
+            'Could not undo answers',
+            'Number of answers to undo must be a whole number of at least 1'
+          );
+          return;
+        }
+        undoHistory(
+          // slice(-0) would be everything
+          (history) => (count > 0 ? history.slice(-count) : []),
+          $scope.settings.MechanicalTurkeyz.redoMaybes
+        );
+        reloadSessions();
+      };
+      $scope.undoSession = () => {
+        undoHistory(
+          (history) =>
+            history.filter(({ session }) => session === $scope.undo.session),
+          $scope.settings.MechanicalTurkeyz.redoMaybes
+        );
+        reloadSessions();
+      };
+      $scope.loadBrowser = loadBrowser;
+      $scope.browserFilter = (row: MemoryRow) =>
+        matchesMemoryFilter(row, $scope.browser.filter);
+      $scope.setAnswer = ({ hash, keyword, answer }: MemoryRow) => {
+        const { memories, edits } = $scope.browser;
+        memories.nifs[hash].keywords[keyword] = answer;
+        (edits.answers[hash] ??= {})[keyword] = answer;
+        $scope.browser.changed = true;
+      };
+      $scope.clearAnswer = (row: MemoryRow) => {
+        const { memories, edits } = $scope.browser;
+        delete memories.nifs[row.hash].keywords[row.keyword];
+        (edits.answers[row.hash] ??= {})[row.keyword] = null;
+        $scope.browser.rows = $scope.browser.rows.filter(
+          (r: MemoryRow) => r !== row
+        );
+        $scope.browser.changed = true;
+      };
+      $scope.promoteMaybes = () => {
+        shownRows()
+          .filter(({ answer }) => isMaybe(answer))
+          .forEach((row) => {
+            row.answer = toAnswer(isYes(row.answer), false);
+            $scope.setAnswer(row);
+          });
+      };
+      $scope.removeStale = () => {
+        const { memories } = $scope.browser;
+        const dir = xelib.GetGlobal('DataPath');
+        const stale = findStaleNifs(memories, dir, loadArchives(dir));
+        if (stale.length === 0) {
+          return;
+        }
+
+        const names = stale.map(
+          (hash) => memories.nifs[hash]?.filenames[0] ?? hash
+        );
+        forgetNifs(memories, stale);
+        $scope.browser.edits.forget.push(...stale);
+        $scope.browser.rows = memoryRows(memories);
+        $scope.browser.changed = true;
+        dialog.showMessageBox({
+          // @ts-ignore
+          type: 'info',
+          title: 'Removed stale memories',
+          message: `Removed ${stale.length} nifs no longer in the Data folder`,
+          detail: names.join('\n'),
+        });
+      };
+      $scope.saveBrowser = () => {
+        try {
+          // Answers may have been learned or undone since loading
+          const memories = loadMemories();
+          const changes = applyMemoryEdits(memories, $scope.browser.edits);
+          saveMemories(memories);
+          appendEdits(new Date().toISOString(), changes);
+        } catch (err) {
+          dialog.showErrorBox('Could not save memories', err.message);
+          return;
+        }
+        loadBrowser();
+        reloadSessions();
+      };
       // Add variables needed for rending settings?
-      $scope.knownKeywords = Object.keys(keywords);
-      $scope.models = Object.keys(Model);
+      reloadKeywords();
+      $scope.models = [...Object.keys(Model), 'Both'];
+      $scope.mergePolicies = MergePolicy;
+      $scope.viewerLifecycles = ViewerLifecycle;
+      $scope.ruleActions = Object.keys(RuleAction).filter((k) => isNaN(+k));
+      $scope.carryPolicies = CarryAnswers;
+      $scope.queueLength = loadQueue(
+        $scope.settings.MechanicalTurkeyz.displayModel
+      ).length;
+      $scope.undo = { count: 1 };
+      reloadSessions();
+      $scope.answers = Object.entries(answerNames).map(([answer, label]) => ({
+        answer: +answer,
+        label,
+      }));
+      $scope.browser = {
+        rows: [],
+        filter: { keyword: '', answer: null, path: '' },
+      };
     },
     defaultSettings: <const>{
-      nifViewer: 'CalienteTools/BodySlide/OutfitStudio x64.exe',
+      viewer: 'OutfitStudio',
+      viewers: JSON.parse(JSON.stringify(defaultViewers)),
       keywords: ['SOS_Revealing'],
+      rules: {},
       redoMaybes: false,
+      deferReview: false,
+      dryRun: false,
+      audit: false,
+      carryAnswers: 'Off',
+      races: 'DefaultRace',
+      playableRaces: false,
+      meshSlots: false,
+      suggestAnswers: false,
+      autoAnswer: false,
+      autoAnswerConfidence: 0.8,
       displayModel: 'Female',
+      mergePolicy: 'KeepOurs',
+      export: { ...defaultExportOptions },
     },
   },
   getFilesToPatch(filenames) {
     return filenames.filter((filename) => filename !== 'zEBD.esp');
   },
   execute(patchFile, helpers, settings, locals) {
-    const { redoMaybes, displayModel } = settings;
+    upgradeSettings(settings);
+    const { redoMaybes, displayModel, dryRun } = settings;
+
+    /**
+     * Record a decision about an ARMO for the dry run report.
+     */
+    function note(
+      editorid: string,
+      keyword: string,
+      decision: Decision,
+      reason: string
+    ): void {
+      locals.report[editorid]?.keywords.push({ keyword, decision, reason });
+    }
+
+    /**
+     * Make sure an ARMO does (or does not) have a keyword.
+     */
+    function setArmorKeyword(
+      armo: RecordHandle,
+      editorid: string,
+      plugin: string,
+      keyword: string,
+      apply: boolean,
+      reason: string
+    ): void {
+      const has = xelib.HasKeyword(armo, keyword);
+      if (apply && !has) {
+        // Apply tag to this ARMO
+        xelib.AddKeyword(armo, keyword);
+      }
+      if (!apply && has) {
+        // Remove the wrong tag from this ARMO
+        xelib.RemoveKeyword(armo, keyword);
+        helpers.logMessage(`Removed ${keyword} from ${editorid}: ${reason}`);
+        locals.removals.push({ editorid, plugin, keyword, reason });
+      }
+    }
 
     return {
       initialize() {
+        // Load keyword definitions
+        const { keywords: knownKeywords, errors } = loadKeywords();
+        errors.forEach((err) =>
+          helpers.logMessage(`Ignoring invalid keyword definition: ${err}`)
+        );
+        settings.keywords.forEach((keyword) => {
+          if (!knownKeywords[keyword]) {
+            throw new Error(`No definition found for keyword ${keyword}`);
+          }
+          const rules = settings.rules[keyword] ?? [];
+          if (rules.length > 0) {
+            knownKeywords[keyword] = {
+              ...knownKeywords[keyword],
+              rules: [
+                ...parseKeywordRules(rules, `Rules for ${keyword}`),
+                ...(knownKeywords[keyword].rules ?? []),
+              ],
+            };
+          }
+        });
+        const profile = settings.viewers[settings.viewer];
+        if (!profile) {
+          throw new Error(`No nif viewer profile named ${settings.viewer}`);
+        }
+
         /**
          * Help make sure I initialize everything.
          */
         function doInitialize() {
+          const dir = xelib.GetGlobal('DataPath');
+          const archives = loadArchives(dir);
+
           return {
-            dir: xelib.GetGlobal('DataPath'),
+            session: new Date().toISOString(),
+            dir,
+            archives,
             taggednifs: loadMemories(),
-            // Look up DefaultRace
-            DefaultRace: xelib.GetRecord(0, 0x19),
-            keywords: settings.keywords.map((keyword) => keywords[keyword]),
+            hashCache: loadHashCache(),
+            hashes: new Map(),
+            unsavedHashes: 0,
+            viewer: openViewer(profile, dir, archives, (err) =>
+              helpers.logMessage(`Nif viewer failed: ${err.message}`)
+            ),
+            bodies: {},
+            races: loadRaces(settings.races, settings.playableRaces),
+            keywords: settings.keywords.map(
+              (keyword) => knownKeywords[keyword]
+            ),
+            knownKeywords,
             kywds: settings.keywords.map((keyword) => {
               // Create KYWD records for keywords
               const kywd = xelib.AddElement(patchFile, 'KYWD\\KYWD');
               xelib.AddElement(kywd, 'EDID - Editor ID');
               return helpers.cacheRecord(kywd as RecordHandle, keyword);
             }),
+            checked: new Set<string>(),
+            queue: [],
+            report: {},
+            removals: [],
+            ruled: {},
+            questions: {},
+            templates: {},
+            decisions: {},
+            variants: [],
+            divergences: [],
             keywordsToPatch: {},
           };
         }
@@ -461,6 +2242,76 @@ registerPatcher<Locals, Settings>({
        * Clean up any of our KYWD records we didn't use.
        */
       finalize() {
+        // Save before anything else here can fail
+        saveHashCache(locals.hashCache);
+
+        // Decide variants like their base armors
+        locals.variants.forEach(
+          ({ formid, editorid, plugin, base, keyword }) => {
+            const { apply, reason } = locals.decisions[base]?.[keyword] ?? {
+              reason: 'undecided',
+            };
+            const variantReason = `base armor ${base}: ${reason}`;
+            if (apply === undefined) {
+              note(editorid, keyword, Decision.Skip, variantReason);
+              return;
+            }
+
+            const armo = xelib.GetWinningOverride(xelib.GetRecord(0, formid));
+            note(
+              editorid,
+              keyword,
+              apply
+                ? Decision.Apply
+                : xelib.HasKeyword(armo, keyword)
+                ? Decision.Remove
+                : Decision.Leave,
+              variantReason
+            );
+            if (!dryRun) {
+              setArmorKeyword(
+                armo,
+                editorid,
+                plugin,
+                keyword,
+                apply,
+                variantReason
+              );
+            }
+          }
+        );
+        if (locals.divergences.length > 0 && !dryRun) {
+          saveDivergences(locals.divergences);
+        }
+
+        if (dryRun) {
+          saveReport(Object.values(locals.report));
+          // Do not leave any ARMO changes in the patch
+          xelib.RemoveElement(patchFile, 'ARMO');
+        } else {
+          if (settings.deferReview) {
+            // Replace old entries for ARMOs checked this run
+            // with what is still undecided
+            saveQueue([
+              ...loadQueue(displayModel).filter(
+                ({ review }) => !locals.checked.has(review.editorid)
+              ),
+              ...locals.queue,
+            ]);
+            saveMemories(locals.taggednifs);
+          }
+          if (settings.audit) {
+            saveRemovals(locals.removals);
+          }
+        }
+
+        locals.viewer.close();
+
+        // Remove any nifs we extracted for the viewer
+        if (existsSync(extractDir)) {
+          rmdirSync(extractDir, { recursive: true });
+        }
+
         xelib.BuildReferences(patchFile, true);
         for (const kywd of locals.kywds) {
           const refs = xelib.GetReferencedBy(kywd);
@@ -474,24 +2325,63 @@ registerPatcher<Locals, Settings>({
           load: {
             signature: 'ARMO',
             filter(record) {
-              const { keywords, keywordsToPatch, DefaultRace } = locals;
+              const { keywords, keywordsToPatch, races } = locals;
 
               const armo = xelib.GetWinningOverride(record);
               const editorid = xelib.EditorID(armo);
+              locals.checked.add(editorid);
 
               // Track the keywords to maybe apply to this record
               keywordsToPatch[editorid] = settings.keywords.concat();
-              function removeKeyword(keyword: string) {
+              // Only kept if the record gets patched
+              const ruled: Locals['ruled'][string] = {};
+              function removeKeyword(keyword: string, reason: string) {
+                if (!keywordsToPatch[editorid].includes(keyword)) {
+                  return;
+                }
+                if (ruled[keyword]?.action === RuleAction.Apply) {
+                  // Rule says to apply regardless
+                  return;
+                }
                 keywordsToPatch[editorid] = keywordsToPatch[editorid].filter(
                   (k) => k !== keyword
                 );
+                note(editorid, keyword, Decision.Skip, reason);
+              }
+              /**
+               * Skip all remaining keywords for this record.
+               */
+              function skipArmor(reason: string): boolean {
+                keywordsToPatch[editorid].forEach((keyword) =>
+                  removeKeyword(keyword, reason)
+                );
+                // Still patch keywords applied by rules
+                return keywordsToPatch[editorid].length > 0 && patchArmor();
+              }
+              /**
+               * Keep what was found out about this record for patching.
+               */
+              function patchArmor(): boolean {
+                if (Object.keys(ruled).length > 0) {
+                  locals.ruled[editorid] = ruled;
+                }
+                return true;
+              }
+
+              if (dryRun) {
+                locals.report[editorid] = {
+                  editorid,
+                  plugin: xelib.GetFileName(xelib.GetElementFile(armo)),
+                  nifs: [],
+                  hashes: [],
+                  keywords: [],
+                };
               }
 
               keywords.forEach(({ id }) => {
-                // Ignore ARMO that already has this keyword
-                if (xelib.HasKeyword(armo, id)) {
-                  // TODO: Add setting to check these too?
-                  removeKeyword(id);
+                // Ignore ARMO that already has this keyword (unless auditing)
+                if (!settings.audit && xelib.HasKeyword(armo, id)) {
+                  removeKeyword(id, 'already has keyword');
                 }
               });
               // Ignore ARMO that already has all the keywords
@@ -499,24 +2389,66 @@ registerPatcher<Locals, Settings>({
                 return false;
               }
 
-              if (!xelib.HasElement(armo, 'Armature')) {
-                // Ignore AMRO with no ARMAs?
+              keywords.forEach((info) => {
+                if (!keywordsToPatch[editorid].includes(info.id)) {
+                  return;
+                }
+                const rule = findRule(info, armo);
+                if (!rule) {
+                  return;
+                }
+                const reason = `rule ${RuleAction[rule.action]} (${describeRule(
+                  rule
+                )})`;
+                helpers.logMessage(`${editorid}: ${info.id} matched ${reason}`);
+                if (rule.action === RuleAction.Skip) {
+                  removeKeyword(info.id, reason);
+                } else {
+                  ruled[info.id] = { action: rule.action, reason };
+                }
+              });
+              // Ignore ARMO if rules skip every keyword
+              if (keywordsToPatch[editorid].length === 0) {
                 return false;
               }
-              // Try to find "people" ARMAs?
-              // @ts-ignore
-              const armas = xelib.GetElements(armo, 'Armature');
-              if (
-                !armas.some((el) => {
-                  const arma = xelib.GetWinningOverride(
-                    xelib.GetLinksTo(el, '')
+
+              const base = templateBase(armo);
+              if (base) {
+                const baseid = xelib.EditorID(base);
+                const own = armatureIds(armo);
+                const shared = armatureIds(base);
+                const extra = own.filter((arma) => !shared.includes(arma));
+                const missing = shared.filter((arma) => !own.includes(arma));
+                // No ARMAs of its own means the same as its base armor
+                if (
+                  own.length === 0 ||
+                  (extra.length === 0 && missing.length === 0)
+                ) {
+                  locals.templates[editorid] = baseid;
+                } else {
+                  // Decide this variant on its own
+                  helpers.logMessage(
+                    `${editorid} has different ARMAs than base armor ${baseid}`
                   );
-                  const rnam = xelib.GetLinksTo(arma, 'RNAM');
-                  return rnam && xelib.ElementEquals(rnam, DefaultRace);
-                })
-              ) {
-                // Ignore if no DefaultRace ARMAs?
-                return false;
+                  locals.divergences.push({
+                    editorid,
+                    plugin: xelib.GetFileName(xelib.GetElementFile(armo)),
+                    base: baseid,
+                    extra,
+                    missing,
+                  });
+                }
+              }
+
+              const armas = armatures(armo);
+              if (armas.length === 0) {
+                // Ignore AMRO with no ARMAs?
+                return skipArmor('no ARMAs');
+              }
+              // Try to find "people" ARMAs?
+              if (!armas.some((arma) => isArmaForRaces(arma, races))) {
+                // Ignore if no ARMAs for the races?
+                return skipArmor('no ARMAs for the races');
               }
 
               /*
@@ -535,7 +2467,7 @@ registerPatcher<Locals, Settings>({
               const bod = getBodyTemplate(armo);
               if (bod === 0) {
                 // Ignore if no Body Template?
-                return false;
+                return skipArmor('no body template');
               }
 
               const flags = xelib.GetEnabledFlags(
@@ -545,8 +2477,9 @@ registerPatcher<Locals, Settings>({
 
               keywords.forEach(({ id, skipSlots }) => {
                 // Ignore amror with any of the skip slots
-                if (flags.some((flag) => skipSlots.includes(flag))) {
-                  removeKeyword(id);
+                const skip = flags.filter((flag) => skipSlots.includes(flag));
+                if (skip.length > 0) {
+                  removeKeyword(id, `has skip slot ${skip.join(', ')}`);
                 }
               });
               // Ingore armor if skipping every keyword
@@ -557,7 +2490,7 @@ registerPatcher<Locals, Settings>({
               keywords.forEach(({ id, relevantSlots }) => {
                 // Ignore armor with none of the relevant slots
                 if (!flags.some((flag) => relevantSlots.includes(flag))) {
-                  removeKeyword(id);
+                  removeKeyword(id, 'no relevant slots');
                 }
               });
               // Ingore armor if skipping every keyword
@@ -566,329 +2499,619 @@ registerPatcher<Locals, Settings>({
               }
 
               // Found no reason to skip this record
-              return true;
+              return patchArmor();
             },
           },
           async patch(record) {
-            const { dir, taggednifs, DefaultRace } = locals;
+            const { dir, archives, taggednifs, races, knownKeywords } = locals;
 
             /**
-             * Add a new hash/answer pair to our memories.
+             * Add a new hash/name pair to our memories.
              */
-            function addAnswer(
-              keyword: string,
+            function addName(hash: string, nif: string): void {
+              const known = !!taggednifs.nifs[hash];
+              const { filenames = [], keywords = {}, ...memory } =
+                taggednifs.nifs[hash] ?? {};
+
+              if (filenames.indexOf(nif) < 0) {
+                filenames.push(nif);
+              }
+
+              taggednifs.nifs[hash] = { ...memory, filenames, keywords };
+
+              if (!known && settings.carryAnswers !== 'Off') {
+                // Maybe it is a new version of a nif we know
+                const previous = findPreviousVersion(taggednifs, hash, nif);
+                if (previous) {
+                  offerPreviousAnswers(hash, previous, nif);
+                }
+              }
+            }
+
+            /**
+             * Carry answers about an earlier version of a nif over to it.
+             */
+            function offerPreviousAnswers(
               hash: string,
-              answer: Answer
+              previous: string,
+              nif: string
             ): void {
-              const { filenames = [], keywords = {} } = taggednifs[hash] ?? {};
+              const answers = Object.entries(
+                taggednifs.nifs[previous]!.keywords
+              ).map(
+                ([keyword, answer]) => `${keyword}: ${answerNames[answer!]}`
+              );
+              let maybe = true;
+
+              if (settings.carryAnswers === 'Offer') {
+                if (dryRun) {
+                  // Do not actually ask
+                  return;
+                }
+                enum Resolution {
+                  'Keep answers' = 0,
+                  'Keep as "maybe"',
+                  'Ignore',
+                }
+                const buttons = Object.keys(Resolution).filter((k) =>
+                  isNaN(+k)
+                );
+                const choice = (dialog.showMessageBox({
+                  // @ts-ignore
+                  type: 'question',
+                  title: 'Updated nif',
+                  message: `${nif} has changed since it was answered about`,
+                  detail: answers.join('\n'),
+                  buttons,
+                }) as unknown) as Resolution;
 
-              keywords[keyword] = answer;
+                if (choice === Resolution['Ignore']) {
+                  return;
+                }
+                maybe = choice === Resolution['Keep as "maybe"'];
+              }
 
-              taggednifs[hash] = { filenames, keywords };
+              carryAnswers(taggednifs, previous, hash, maybe);
+              helpers.logMessage(
+                `Carried answers for ${nif} from ${previous}: ${answers.join(
+                  ', '
+                )}`
+              );
             }
+
             /**
-             * Add a new hash/name pair to our memories.
+             * Hash a nif, at most once per run.
              */
-            function addName(hash: string, nif: string): void {
-              const { filenames = [], keywords = {} } = taggednifs[hash] ?? {};
+            function hashNif(nif: string): Promise<string> {
+              const key = normalizePath(nif);
+              let hash = locals.hashes.get(key);
+              if (!hash) {
+                hash = hashDataFile(dir, archives, nif, locals.hashCache);
+                locals.hashes.set(key, hash);
+                hash.then(
+                  () => {
+                    if (++locals.unsavedHashes >= hashCacheInterval) {
+                      saveHashCache(locals.hashCache);
+                      locals.unsavedHashes = 0;
+                    }
+                  },
+                  // Try again next time instead of remembering the failure
+                  () => locals.hashes.delete(key)
+                );
+              }
+              return hash;
+            }
 
-              if (filenames.indexOf(nif) < 0) {
-                filenames.push(nif);
+            /**
+             * Get the body slots an ARMA occupies.
+             */
+            function armaSlots(arma: RecordHandle, nif: string): BodySlot[] {
+              const bod = getBodyTemplate(arma);
+              const flags = xelib.GetEnabledFlags(
+                bod,
+                'First Person Flags'
+              ) as BodySlot[];
+              helpers.logMessage(`${xelib.EditorID(arma)}: ${flags}`);
+              if (!settings.meshSlots) {
+                return flags;
               }
 
-              taggednifs[hash] = { filenames, keywords };
+              try {
+                const parsed = readNif(readDataFile(dir, archives, nif));
+                parsed.shapes.forEach(({ name, partitions }) =>
+                  helpers.logMessage(
+                    `${nif}: ${name} ${partitions
+                      .map(({ bodyPart, slot }) => slot ?? bodyPart)
+                      .join(', ')}`
+                  )
+                );
+                const slots = nifSlots(parsed);
+                // Unpartitioned nifs do not tell us anything
+                return slots.length > 0 ? slots : flags;
+              } catch (err) {
+                helpers.logMessage(`Error reading ${nif}: ${err.message}`);
+                return flags;
+              }
             }
 
             const armo = xelib.GetWinningOverride(record);
 
             const editorid = xelib.EditorID(armo);
+            const plugin = xelib.GetFileName(
+              xelib.GetElementFile(xelib.GetPreviousOverride(armo, patchFile))
+            );
             helpers.logMessage(`Checking ${editorid}`);
 
             // TODO: Do this better?
-            const keywordsToPatch = locals.keywordsToPatch[editorid];
+            let keywordsToPatch = locals.keywordsToPatch[editorid];
             delete locals.keywordsToPatch[editorid];
+            const ruled = locals.ruled[editorid] ?? {};
+            delete locals.ruled[editorid];
 
-            // Get all the ARMAs for this ARMO
-            const armas = xelib
-              // @ts-ignore
-              .GetElements(armo, 'Armature')
-              .map((el) => xelib.GetWinningOverride(xelib.GetLinksTo(el, '')))
-              // Try to ignore creature ARMAs?
-              .filter((arma) =>
-                xelib.ElementEquals(xelib.GetLinksTo(arma, 'RNAM'), DefaultRace)
+            // Variants sharing ARMAs follow base armor
+            const base = locals.templates[editorid];
+            const following = keywordsToPatch.filter(
+              (keyword) =>
+                base &&
+                ruled[keyword]?.action !== RuleAction.Apply &&
+                (locals.keywordsToPatch[base]?.includes(keyword) ||
+                  !!locals.decisions[base]?.[keyword])
+            );
+            following.forEach((keyword) => {
+              helpers.logMessage(
+                `${editorid} follows base armor ${base} for ${keyword}`
               );
+              locals.variants.push({
+                formid: xelib.GetFormID(armo),
+                editorid,
+                plugin,
+                base,
+                keyword,
+              });
+            });
+            keywordsToPatch = keywordsToPatch.filter(
+              (keyword) => !following.includes(keyword)
+            );
 
-            // Get the nifs
-            const nifs = armas
-              .map((arma) =>
-                // TODO: handle alternate textures?
-                xelib.GetValue(arma, Model[displayModel])
-              )
-              .filter((nif) => !!nif)
-              .map((nif) => `meshes\\${nif}`);
-            if (nifs.length === 0) {
-              // Nothing to do?
+            // Remember decisions for variants
+            const decisions = (locals.decisions[editorid] = {} as {
+              [keyword: string]: { apply?: boolean; reason: string };
+            });
+            keywordsToPatch.forEach((keyword) => {
+              decisions[keyword] = { reason: 'undecided' };
+            });
+
+            /**
+             * Make sure ARMO does (or does not) have a keyword.
+             */
+            function setKeyword(
+              keyword: string,
+              apply: boolean,
+              reason: string
+            ): void {
+              decisions[keyword] = { apply, reason };
+              if (!dryRun) {
+                setArmorKeyword(armo, editorid, plugin, keyword, apply, reason);
+              }
+            }
+
+            // Apply keywords forced by rules without looking at nifs
+            const forced = keywordsToPatch.filter(
+              (keyword) => ruled[keyword]?.action === RuleAction.Apply
+            );
+            forced.forEach((keyword) => {
+              const { reason } = ruled[keyword];
+              note(editorid, keyword, Decision.Apply, reason);
+              setKeyword(keyword, true, reason);
+            });
+            keywordsToPatch = keywordsToPatch.filter(
+              (keyword) => !forced.includes(keyword)
+            );
+            if (keywordsToPatch.length === 0) {
               return;
             }
 
-            let hashes: readonly string[];
+            // Get all the ARMAs for this ARMO
+            const armas = armatures(armo)
+              // Try to ignore creature ARMAs?
+              .filter((arma) => isArmaForRaces(arma, races));
+
+            let models: ModelNifs[];
             try {
-              // Hash the nifs
-              hashes = await Promise.map(nifs, (nif) => {
-                const hash = createHash('sha1');
-                hash.setEncoding('hex');
-                const fd = createReadStream(dir + nif);
-                return new Promise<string>((resolve, reject) => {
-                  fd.on('end', () => {
-                    hash.end();
-                    resolve(hash.read());
+              models = await Promise.mapSeries(
+                displayedModels(displayModel),
+                async (model) => {
+                  // Ignore ARMAs without the model
+                  const modelArmas = armas.filter(
+                    (arma) => !!xelib.GetValue(arma, Model[model])
+                  );
+
+                  // Get the nifs
+                  const nifs = modelArmas.map(
+                    (arma) => `meshes\\${xelib.GetValue(arma, Model[model])}`
+                  );
+
+                  // Hash the nifs (loose or from BSAs)
+                  const hashes = await Promise.map(nifs, (nif) => hashNif(nif))
+                    // Remember alternate textures separately from plain nif
+                    .map((hash, i) => {
+                      const textures = textureHash(modelArmas[i], Model[model]);
+                      return textures
+                        ? hash + textureSeparator + textures
+                        : hash;
+                    })
+                    .each((hash, i) => addName(hash, nifs[i]));
+
+                  const slots = modelArmas.map((arma, i) =>
+                    armaSlots(arma, nifs[i])
+                  );
+
+                  // Find the hashes of only relevant ARMAs
+                  const relevantHashes: { [keyword: string]: string[] } = {};
+                  keywordsToPatch.forEach((keyword) => {
+                    const { irrelevantSlots } = knownKeywords[keyword];
+
+                    // Check if unanswered ARMA relevant
+                    relevantHashes[keyword] = hashes.filter((_, i) =>
+                      slots[i].some((slot) => !irrelevantSlots.includes(slot))
+                    );
                   });
-                  fd.on('error', (err) => reject(err));
-                  fd.pipe(hash);
-                });
-              }).each((hash, i) => addName(hash, nifs[i]));
+
+                  // Nifs shared by ARMAs occupy all their slots
+                  const nifSlots: NifSlots = {};
+                  hashes.forEach((hash, i) => {
+                    nifSlots[hash] = [
+                      ...new Set([...(nifSlots[hash] ?? []), ...slots[i]]),
+                    ];
+                  });
+
+                  return {
+                    model,
+                    nifs,
+                    hashes,
+                    relevantHashes,
+                    slots: nifSlots,
+                  };
+                }
+              ).filter(({ nifs }) => nifs.length > 0);
             } catch (err) {
-              // TODO: Support reading nifs from inside BSAs?
               helpers.logMessage(`Error opening nif: ${err}`);
               // Skip this AMRO?
+              keywordsToPatch.forEach((keyword) =>
+                note(editorid, keyword, Decision.Skip, `${err}`)
+              );
+              return;
+            }
+            if (models.length === 0) {
+              // Nothing to do?
+              keywordsToPatch.forEach((keyword) =>
+                note(editorid, keyword, Decision.Skip, 'no nifs')
+              );
               return;
             }
 
+            const nifs = models.flatMap(({ nifs }) => nifs);
+            if (locals.report[editorid]) {
+              Object.assign(locals.report[editorid], {
+                nifs,
+                hashes: models.flatMap(({ hashes }) => hashes),
+              });
+            }
+
             helpers.logMessage(`Found nifs for ${editorid}: ${nifs}`);
 
-            // Get previous answers about nif keywords
-            const answers: { [keyword: string]: readonly Answered[] } = {};
-            keywordsToPatch.forEach((keyword) => {
-              answers[keyword] = hashes.map((hash) => {
-                const answer = taggednifs[hash]?.keywords[keyword];
-
-                // Handle "maybe" memories
-                switch (answer) {
-                  case Answer.MaybeYes:
-                    return redoMaybes ? undefined : Answer.Yes;
-                  case Answer.MaybeNo:
-                    return redoMaybes ? undefined : Answer.No;
-                  default:
-                    return answer;
-                }
-              });
-            });
-            // Get previous answers about nif keywords for only relevant ARMAs
-            const relevantAnswers: {
-              [keyword: string]: readonly Answered[];
-            } = {};
-            const relevantHashes: { [keyword: string]: string[] } = {};
-            keywordsToPatch.forEach((keyword) => {
-              const { irrelevantSlots } = keywords[keyword];
-
-              relevantHashes[keyword] = [];
-              relevantAnswers[keyword] = answers[keyword].filter((_, i) => {
-                const arma = armas[i];
-                const bod = getBodyTemplate(arma);
-                const flags = xelib.GetEnabledFlags(
-                  bod,
-                  'First Person Flags'
-                ) as BodySlot[];
-                helpers.logMessage(`${xelib.EditorID(arma)}: ${flags}`);
-
-                // Check if unanswered ARMA relevant
-                if (flags.some((flag) => !irrelevantSlots.includes(flag))) {
-                  relevantHashes[keyword].push(hashes[i]);
-                  return true;
-                }
-                return false;
-              });
-            });
+            // Ignore keywords none of the deciding nifs are relevant to
+            const irrelevant = keywordsToPatch.filter(
+              (keyword) =>
+                relevantModels(knownKeywords[keyword], models).length === 0
+            );
+            irrelevant.forEach((keyword) =>
+              note(editorid, keyword, Decision.Skip, 'no relevant nifs')
+            );
+            keywordsToPatch = keywordsToPatch.filter(
+              (keyword) => !irrelevant.includes(keyword)
+            );
+            if (keywordsToPatch.length === 0) {
+              return;
+            }
 
-            const keywordsToAsk: string[] = [];
-            keywordsToPatch.forEach((keyword) => {
-              const { type } = keywords[keyword];
+            /**
+             * Read a nif, remembering it for the rest of this ARMO.
+             */
+            const parsed = new Map<string, Nif>();
+            function parseNif(nif: string): Nif {
+              const found = parsed.get(nif);
+              if (found) {
+                return found;
+              }
+              const read = readNif(readDataFile(dir, archives, nif));
+              parsed.set(nif, read);
+              return read;
+            }
 
-              // Try to choose tag automagically based on relevant past answers
-              // TODO: Clean up this logic?
-              switch (type) {
-                case KeywordType.Inclusive:
-                  // Assume yes if single yes?
-                  if (
-                    relevantAnswers[keyword].some(
-                      (answer) => answer === Answer.Yes
-                    )
-                  ) {
-                    helpers.logMessage(
-                      `One of the relevant nifs already known to be ${keyword}`
-                    );
-                    // Apply tag to this ARMO
-                    return xelib.AddKeyword(armo, keyword);
-                  }
-                  // Assume no if all no?
-                  if (
-                    relevantAnswers[keyword].every(
-                      (answer) => answer === Answer.No
-                    )
-                  ) {
-                    helpers.logMessage(
-                      `One of the relevant nifs already known to not be ${keyword}`
+            /**
+             * Suggest answers about a keyword from the nifs' geometry.
+             */
+            function suggest(
+              { id: keyword, relevantSlots, coverageThreshold }: KeywordInfo,
+              ask: readonly (keyof typeof Model)[]
+            ): { [model: string]: Suggestion } {
+              const suggestions: { [model: string]: Suggestion } = {};
+
+              const rule = ruled[keyword];
+              if (rule) {
+                // Rules take precedence over geometry
+                const choice =
+                  rule.action === RuleAction.SuggestYes
+                    ? Choice.MaybeYes
+                    : Choice.MaybeNo;
+                ask.forEach((model) => {
+                  suggestions[model] = {
+                    choice,
+                    reason: rule.reason,
+                    confidence: 0,
+                  };
+                });
+                return suggestions;
+              }
+
+              if (!settings.suggestAnswers || coverageThreshold === undefined) {
+                return suggestions;
+              }
+
+              models
+                .filter(({ model }) => ask.includes(model))
+                .forEach(({ model, nifs, hashes, relevantHashes }) => {
+                  try {
+                    if (locals.bodies[model] === undefined) {
+                      // Load reference body once per run
+                      try {
+                        locals.bodies[model] = parseNif(referenceBodies[model]);
+                      } catch (err) {
+                        helpers.logMessage(
+                          `Error reading ${model} reference body: ${err.message}`
+                        );
+                        locals.bodies[model] = null;
+                      }
+                    }
+                    const body = locals.bodies[model];
+                    if (!body) {
+                      return;
+                    }
+
+                    const coverage = bodyCoverage(
+                      body,
+                      nifs
+                        .filter((_, i) =>
+                          relevantHashes[keyword].includes(hashes[i])
+                        )
+                        .map(parseNif),
+                      relevantSlots
                     );
-                    return;
-                  }
-                  break;
-                case KeywordType.Exclusive:
-                  // Assume yes if all yes
-                  if (
-                    relevantAnswers[keyword].every(
-                      (answer) => answer === Answer.Yes
-                    )
-                  ) {
+                    if (coverage !== undefined) {
+                      suggestions[model] = suggestAnswer(
+                        coverageThreshold,
+                        coverage
+                      );
+                      helpers.logMessage(
+                        `${describeSuggestion(
+                          model,
+                          suggestions[model]
+                        )} for ${keyword}`
+                      );
+                    }
+                  } catch (err) {
                     helpers.logMessage(
-                      `All relevant nifs already known to be ${keyword}`
+                      `Error suggesting answer: ${err.message}`
                     );
-                    // Apply tag to this ARMO
-                    return xelib.AddKeyword(armo, keyword);
                   }
-                  // Assume no if single no?
-                  if (
-                    relevantAnswers[keyword].some(
-                      (answer) => answer === Answer.No
+                });
+
+              return suggestions;
+            }
+
+            const modelsToAsk: {
+              [keyword: string]: Pick<PendingKeyword, 'models' | 'suggestions'>;
+            } = {};
+            const questionKeys: { [keyword: string]: string } = {};
+            const deferring = settings.deferReview && !dryRun;
+            let autoAnswered = false;
+            keywordsToPatch.forEach((keyword) => {
+              const info = knownKeywords[keyword];
+              let reason = '';
+
+              // Try to choose tag automagically based on relevant past answers
+              let { apply, ask } = inferModels(
+                taggednifs,
+                info,
+                models,
+                redoMaybes,
+                (message) => {
+                  helpers.logMessage(message);
+                  reason = message;
+                }
+              );
+
+              // Check if an ARMO with the same nifs was already asked about
+              // (queued ARMOs are all queued, to be answered together)
+              const key = questionKey(keyword, models, ask);
+              const asked =
+                apply === undefined && !deferring
+                  ? locals.questions[key]
+                  : null;
+              if (asked) {
+                reason = `same nifs as ${asked.editorid}`;
+                helpers.logMessage(`${editorid}: ${keyword} ${reason}`);
+                apply = asked.apply;
+              }
+              const suggestions =
+                apply === undefined && !asked ? suggest(info, ask) : {};
+
+              if (
+                apply === undefined &&
+                !asked &&
+                settings.autoAnswer &&
+                !dryRun
+              ) {
+                // Answer "maybe" for confident suggestions
+                const confident = ask.filter(
+                  (model) =>
+                    suggestions[model]?.confidence >=
+                    settings.autoAnswerConfidence
+                );
+                if (confident.length > 0) {
+                  const choices = Object.fromEntries(
+                    confident.map((model) => [model, suggestions[model].choice])
+                  );
+                  const learned = learnAnswers(
+                    taggednifs,
+                    [info],
+                    { [keyword]: choices },
+                    models,
+                    redoMaybes,
+                    helpers.logMessage
+                  );
+                  apply = learned.apply[keyword];
+                  appendHistory(
+                    locals.session,
+                    { editorid, plugin },
+                    { [keyword]: choices },
+                    models,
+                    learned.changes
+                  );
+                  ask = ask.filter((model) => !confident.includes(model));
+                  autoAnswered = true;
+                  reason = confident
+                    .map((model) =>
+                      describeSuggestion(model, suggestions[model])
                     )
-                  ) {
-                    helpers.logMessage(
-                      `One of the relevant nifs already known to not be ${keyword}`
-                    );
-                    return;
+                    .join(', ');
+                }
+              }
+
+              switch (apply) {
+                case true:
+                  note(editorid, keyword, Decision.Apply, reason);
+                  setKeyword(keyword, true, reason);
+                  break;
+                case false:
+                  note(
+                    editorid,
+                    keyword,
+                    xelib.HasKeyword(armo, keyword)
+                      ? Decision.Remove
+                      : Decision.Leave,
+                    reason
+                  );
+                  setKeyword(keyword, false, reason);
+                  break;
+                case undefined:
+                  if (asked) {
+                    // Do not ask the same question again
+                    note(editorid, keyword, Decision.Ask, reason);
+                    break;
                   }
+
+                  // Ask the user for input
+                  locals.questions[key] ??= { editorid };
+                  questionKeys[keyword] = key;
+                  note(
+                    editorid,
+                    keyword,
+                    Decision.Ask,
+                    [
+                      'not enough answers',
+                      ...ask
+                        .filter((model) => suggestions[model])
+                        .map((model) =>
+                          describeSuggestion(model, suggestions[model])
+                        ),
+                    ].join(', ')
+                  );
+                  modelsToAsk[keyword] = { models: ask, suggestions };
                   break;
-                default:
-                  return invalidKeywordType(type);
               }
-
-              // Ask the user for input
-              keywordsToAsk.push(keyword);
             });
+            const keywordsToAsk = Object.keys(modelsToAsk);
+
+            if (autoAnswered) {
+              // Update memory
+              solveConstraints(taggednifs, helpers.logMessage);
+              saveMemories(taggednifs);
+            }
 
             if (keywordsToAsk.length === 0) {
               // Nothing to ask user about
               return;
             }
 
+            if (dryRun) {
+              // Do not actually ask
+              return;
+            }
+
+            if (settings.deferReview) {
+              // Save it for the review session
+              helpers.logMessage(`Queueing ${editorid} for review`);
+              locals.queue.push({
+                review: describeArmor(
+                  armo,
+                  plugin,
+                  keywordsToAsk.map((keyword) => knownKeywords[keyword]),
+                  modelsToAsk
+                ),
+                models,
+                questions: questionKeys,
+              });
+              return;
+            }
+
             // Show nifs
-            // TODO: How to close it programatically without breaking vfs?
-            const viewer = Promise.fromCallback((cb) =>
-              execFile(settings.nifViewer, nifs, { cwd: dir }, cb)
-            );
+            locals.viewer.show(nifs);
 
             // Ask user about remaining keywords
-            // TODO: Make single dialog for multipe keywords?
-            enum Choice {
-              'Yes' = 0,
-              'Maybe Yes',
-              'Maybe No',
-              'No',
-              'Cancel',
-            }
-            const buttons = Object.keys(Choice).filter((k) => isNaN(+k));
-            const choices = await Promise.map(
-              keywordsToAsk,
-              (keyword) =>
-                (dialog.showMessageBox({
-                  // @ts-ignore
-                  type: 'question',
-                  message: `Apply ${keyword}?`,
-                  title: editorid,
-                  buttons,
-                }) as unknown) as Choice
+            const choices = askArmor(
+              describeArmor(
+                armo,
+                plugin,
+                keywordsToAsk.map((keyword) => knownKeywords[keyword]),
+                modelsToAsk
+              )
             );
 
             // Do "learning" from user answers
-            choices.forEach((choice, i) => {
-              const keyword = keywordsToAsk[i];
-              const { type } = keywords[keyword];
-
-              // TODO: Clean up this logic?
-              switch (type) {
-                case KeywordType.Inclusive:
-                  switch (choice) {
-                    case Choice['Yes']:
-                    case Choice['Maybe Yes']:
-                      // Filter out relevant nifs that are definitely not tag
-                      const hhashes = relevantHashes[keyword].filter(
-                        (_, i) => relevantAnswers[keyword][i] !== Answer.No
-                      );
-                      // If only one nif left, it must be the keyword one
-                      if (hhashes.length === 1) {
-                        addAnswer(
-                          keyword,
-                          hhashes[0],
-                          choice === Choice['Yes']
-                            ? Answer.Yes
-                            : Answer.MaybeYes
-                        );
-                      } else {
-                        // TODO: How to handle Yes answer with multiple nifs invloved?
-                      }
-                      break;
-                    case Choice['No']:
-                    case Choice['Maybe No']:
-                      // Record all nifs as not keyword
-                      hashes.forEach((hash) =>
-                        addAnswer(
-                          keyword,
-                          hash,
-                          choice === Choice['No'] ? Answer.No : Answer.MaybeNo
-                        )
-                      );
-                      break;
-                    case Choice['Cancel']:
-                      throw new Error('Cancelled by user');
-                  }
-                  break;
-                case KeywordType.Exclusive:
-                  switch (choice) {
-                    case Choice['Yes']:
-                    case Choice['Maybe Yes']:
-                      // Apply tag to this ARMO
-                      xelib.AddKeyword(armo, keyword);
-                      // Record all nifs as keyword
-                      hashes.forEach((hash) =>
-                        addAnswer(
-                          keyword,
-                          hash,
-                          choice === Choice['Yes']
-                            ? Answer.Yes
-                            : Answer.MaybeYes
-                        )
-                      );
-                      break;
-                    case Choice['No']:
-                    case Choice['Maybe No']:
-                      // Filter out relevant nifs that are definitely revealing
-                      const hhashes = relevantHashes[keyword].filter(
-                        (_, i) => relevantAnswers[keyword][i] !== Answer.Yes
-                      );
-                      // If only one nif left, it must be the non-revealing one
-                      if (hhashes.length === 1) {
-                        addAnswer(
-                          keyword,
-                          hhashes[0],
-                          choice === Choice['No'] ? Answer.No : Answer.MaybeNo
-                        );
-                      } else {
-                        // TODO: How to handle No answer with multiple nifs invloved?
-                      }
-                      break;
-                    case Choice['Cancel']:
-                      throw new Error('Cancelled by user');
-                  }
-                  break;
-                default:
-                  return invalidKeywordType(type);
+            const learned = learnAnswers(
+              taggednifs,
+              keywordsToAsk.map((keyword) => knownKeywords[keyword]),
+              choices,
+              models,
+              redoMaybes,
+              helpers.logMessage
+            );
+            keywordsToAsk.forEach((keyword) => {
+              const apply = learned.apply[keyword];
+              if (apply !== undefined) {
+                const choice = Object.entries(choices[keyword] ?? {})
+                  .map(([model, choice]) => `${choice} (${model})`)
+                  .join(', ');
+                setKeyword(keyword, apply, `user answered ${choice}`);
+                // Decide ARMOs with the same nifs the same way
+                locals.questions[questionKeys[keyword]].apply = apply;
               }
             });
 
             // Update memory
             saveMemories(taggednifs);
+            appendHistory(
+              locals.session,
+              { editorid, plugin },
+              choices,
+              models,
+              learned.changes
+            );
 
-            // Wait for viewer to close
-            await viewer;
+            // Wait for viewer to close (or not)
+            await locals.viewer.done();
           },
         },
       ],
@@ -0,0 +1,893 @@
+/**
+ * Keywords the patcher can apply and the body slots they depend on.
+ *
+ * @packageDocumentation
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * @internal
+ */
+export function invalidKeywordType(type: never): never {
+  throw new Error(`Invalid keyword type: ${type}`);
+}
+
+/**
+ * Body slots
+ */
+export enum BodySlot {
+  Head = '30 - Head',
+  Hair = '31 - Hair',
+  Body = '32 - Body',
+  Hands = '33 - Hands',
+  Forearms = '34 - Forearms',
+  Amulet = '35 - Amulet',
+  Ring = '36 - Ring',
+  Feet = '37 - Feet',
+  Calves = '38 - Calves',
+  Shield = '39 - Shield',
+  Tail = '40 - Tail',
+  LongHair = '41 - LongHair',
+  Circlet = '42 - Circlet',
+  Ears = '43 - Ears',
+  /**
+   * face/mouth
+   */
+  FaceMouth = '44 - Unnamed',
+  /**
+   * neck (like a cape, scarf, shawl, neck-tie etc.)
+   */
+  Neck = '45 - Unnamed',
+  /**
+   * chest primary or outergarment
+   */
+  ChestPrimary = '46 - Unnamed',
+  /**
+   * back (like a backpack/wings etc.)
+   */
+  Back = '47 - Unnamed',
+  /**
+   * misc/FX
+   */
+  Misc48 = '48 - Unnamed',
+  /**
+   * pelvis primary or outergarment
+   */
+  PelvisPrimary = '49 - Unnamed',
+  DecapitatedHead = '50 - DecapitateHead',
+  Decapitate = '51 - Decapitate',
+  /**
+   * pelvis secondary or undergarment
+   */
+  PelvisSecondary = '52 - Unnamed',
+  /**
+   * slot used by SoS
+   */
+  SoS = PelvisSecondary,
+  /**
+   * leg primary or outergarment or right leg
+   */
+  LegPrimary = '53 - Unnamed',
+  /**
+   * leg secondary or undergarment or left leg
+   */
+  LegSecondary = '54 - Unnamed',
+  /**
+   * face alternate or jewelry
+   */
+  FaceAlternate = '55 - Unnamed',
+  /**
+   * chest secondary or undergarment
+   */
+  ChestSecondary = '56 - Unnamed',
+  /**
+   * shoulder
+   */
+  Shoulder = '57 - Unnamed',
+  /**
+   * arm secondary or undergarment or left arm
+   */
+  ArmSecondary = '58 - Unnamed',
+  /**
+   * arm primary or outergarment or right arm
+   */
+  ArmPrimary = '59 - Unnamed',
+  /**
+   * misc/FX
+   */
+  Misc60 = '60 - Unnamed',
+  FX01 = '61 - FX01',
+}
+
+/**
+ *
+ * @todo better names?
+ */
+export enum KeywordType {
+  /**
+   * If any part of a thing is this keyword the whole thing is.
+   *
+   * @example ArmorHelmet?
+   */
+  Inclusive = 1,
+  /**
+   * Only applies if everything meets keyword criteria.
+   *
+   * @example SOS_Revealing
+   */
+  Exclusive = 2,
+  /**
+   * Only applies if everything in the primary slot meets keyword criteria.
+   *
+   * Like Exclusive, but ignoring nifs not in `primarySlot`
+   * (unless none are in it).
+   *
+   * @see KeywordInfo.primarySlot
+   */
+  PrimarySlot = 3,
+  /**
+   * Applies if more than half of the relevant nifs meet keyword criteria.
+   */
+  Majority = 4,
+  /**
+   * Applies if more than half of the relevant nifs (weighted by the slots
+   * they occupy) meet keyword criteria.
+   *
+   * @see KeywordInfo.slotWeights
+   */
+  Weighted = 5,
+}
+
+/**
+ * How to combine the answers about each world model of an ARMO,
+ * when displaying both models.
+ *
+ * @see Settings.displayModel
+ */
+export enum GenderRule {
+  /**
+   * Applies if it applies to either model.
+   */
+  Either = 1,
+  /**
+   * Only applies if it applies to both models.
+   */
+  Both = 2,
+  /**
+   * Decided by the male model only.
+   */
+  Male = 3,
+  /**
+   * Decided by the female model only.
+   */
+  Female = 4,
+}
+
+/**
+ * What to do about a keyword for ARMOs matching a rule.
+ *
+ * @see KeywordRule
+ */
+export enum RuleAction {
+  /**
+   * Apply keyword without looking at nifs
+   */
+  Apply = 1,
+  /**
+   * Do not apply (or ask about) keyword
+   */
+  Skip = 2,
+  /**
+   * Suggest that keyword applies when asking
+   */
+  SuggestYes = 3,
+  /**
+   * Suggest that keyword does not apply when asking
+   */
+  SuggestNo = 4,
+}
+
+/**
+ * Rule to decide a keyword from an ARMO's record, rather than its nifs.
+ *
+ * All the given conditions must match.
+ *
+ * @see matchesRule
+ */
+export interface KeywordRule {
+  /**
+   * Pattern for the EditorID (case insensitive)
+   */
+  editorid?: RegExp;
+  /**
+   * Pattern for the name (case insensitive)
+   */
+  name?: RegExp;
+  /**
+   * Filename of the plugin the ARMO comes from (i.e., its master)
+   */
+  plugin?: string;
+  /**
+   * EditorIDs of keywords the ARMO must have
+   */
+  keywords?: readonly string[];
+  action: RuleAction;
+}
+
+/**
+ * What rules can check about an ARMO.
+ *
+ * @see matchesRule
+ */
+export interface RuleSubject {
+  editorid: string;
+  name: string;
+  /**
+   * Filename of the plugin the ARMO comes from (i.e., its master)
+   */
+  plugin: string;
+  hasKeyword: (keyword: string) => boolean;
+}
+
+/**
+ * Check if an ARMO matches a rule.
+ */
+export function matchesRule(
+  { editorid, name, plugin, keywords = [] }: KeywordRule,
+  armor: RuleSubject
+): boolean {
+  return (
+    (!editorid || editorid.test(armor.editorid)) &&
+    (!name || name.test(armor.name)) &&
+    (!plugin || armor.plugin.toLowerCase() === plugin.toLowerCase()) &&
+    keywords.every((keyword) => armor.hasKeyword(keyword))
+  );
+}
+
+/**
+ * Rule as written in keyword definitions and settings,
+ * with patterns as strings and the name of the RuleAction.
+ *
+ * Empty patterns and plugins match anything,
+ * but a rule needs at least one condition.
+ *
+ * @see parseKeywordRules
+ */
+export interface RuleDefinition {
+  editorid?: string;
+  name?: string;
+  plugin?: string;
+  keywords?: readonly string[];
+  action: keyof typeof RuleAction;
+}
+
+/**
+ * Describe a rule's conditions for logs.
+ */
+export function describeRule({
+  editorid,
+  name,
+  plugin,
+  keywords,
+}: KeywordRule) {
+  return (
+    [
+      editorid && `EditorID matches ${editorid}`,
+      name && `name matches ${name}`,
+      plugin && `from ${plugin}`,
+      keywords?.length && `has ${keywords.join(', ')}`,
+    ]
+      .filter((condition) => !!condition)
+      .join(', ') || 'any armor'
+  );
+}
+
+/**
+ * Description of a keyword for the "learing" alrogirithm.
+ */
+export interface KeywordInfo {
+  /**
+   * The EditorID of the keword.
+   */
+  id: string;
+  /**
+   * Description to show users.
+   */
+  description: string;
+  /**
+   * What type of keyword this is?
+   */
+  type: KeywordType;
+  /**
+   * Which models' answers decide the keyword.
+   */
+  genders: GenderRule;
+  /**
+   * Relevant slots (i.e., slots to which this keyword might apply).
+   */
+  relevantSlots: readonly BodySlot[];
+  /**
+   * Irrelevant slots (i.e., slots which can be ignored).
+   */
+  irrelevantSlots: readonly BodySlot[];
+  /**
+   * Slots which mean keywords should not be applied.
+   * (e.g., slot 52 for SOS_Revealing)
+   */
+  skipSlots: readonly BodySlot[];
+  /**
+   * Rules to check (in order) before looking at nifs.
+   * The first matching rule decides.
+   *
+   * @default []
+   */
+  rules?: readonly KeywordRule[];
+  /**
+   * Slot which decides a PrimarySlot keyword.
+   */
+  primarySlot?: BodySlot;
+  /**
+   * Weight of each slot for a Weighted keyword (unlisted slots weigh 0).
+   *
+   * A nif weighs the sum of the weights of its slots.
+   */
+  slotWeights?: { readonly [slot: string]: number };
+  /**
+   * Suggest the keyword applies when an armor covers less than this
+   * fraction (0 to 1) of the body in the relevant slots.
+   *
+   * @see bodyCoverage
+   */
+  coverageThreshold?: number;
+}
+
+/**
+ * Slots which do not cover the torso (i.e., head, hair, hands, etc.).
+ *
+ * @todo add more slots to this list?
+ */
+export const accessorySlots: readonly BodySlot[] = [
+  BodySlot.Head,
+  BodySlot.Hair,
+  BodySlot.Hands,
+  BodySlot.Forearms,
+  BodySlot.LongHair,
+  BodySlot.Circlet,
+  BodySlot.Ears,
+];
+
+/**
+ * Slots which cover (part of) the torso.
+ */
+export const torsoSlots: readonly BodySlot[] = [
+  BodySlot.Body,
+  BodySlot.ChestPrimary,
+  BodySlot.ChestSecondary,
+  BodySlot.PelvisPrimary,
+  BodySlot.PelvisSecondary,
+];
+
+/**
+ * Every body slot except the given ones.
+ */
+export function allSlotsExcept(...slots: readonly BodySlot[]): BodySlot[] {
+  return (Object.values(BodySlot) as BodySlot[]).filter(
+    (slot, i, all) => !slots.includes(slot) && all.indexOf(slot) === i
+  );
+}
+
+/**
+ * Keywords which ship with the patcher.
+ *
+ * Users can add to/override these with definition files.
+ *
+ * @see keywordDir
+ */
+export const builtinKeywords: Record<string, KeywordInfo> = <const>{
+  SOS_Revealing: {
+    id: 'SOS_Revealing',
+    description: 'SoS revealing keyword',
+    type: KeywordType.Exclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [BodySlot.SoS],
+    coverageThreshold: 0.9,
+  },
+  EroticArmor: {
+    id: 'EroticArmor',
+    description: 'SexLab Aroused erotic armor (sexy to look at)',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: torsoSlots,
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_ArmorHalfNaked: {
+    id: 'SLA_ArmorHalfNaked',
+    description: 'SexLab Aroused half naked armor (breasts/genitals exposed)',
+    type: KeywordType.Exclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+    coverageThreshold: 0.8,
+  },
+  SLA_ArmorHalfNakedBikini: {
+    id: 'SLA_ArmorHalfNakedBikini',
+    description: 'SexLab Aroused bikini armor (bikini-like torso coverage)',
+    type: KeywordType.Exclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+    coverageThreshold: 0.5,
+  },
+  SLA_ArmorSpendex: {
+    id: 'SLA_ArmorSpendex',
+    description: 'SexLab Aroused spandex armor (skin tight)',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body, BodySlot.LegPrimary, BodySlot.Calves],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_ArmorPretty: {
+    id: 'SLA_ArmorPretty',
+    description: 'SexLab Aroused pretty armor (attractive but not revealing)',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_ArmorTransparent: {
+    id: 'SLA_ArmorTransparent',
+    description: 'SexLab Aroused transparent armor (see-through)',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: torsoSlots,
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_ArmorCurtain: {
+    id: 'SLA_ArmorCurtain',
+    description: 'SexLab Aroused curtain armor (loincloth/pelvic curtain)',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body, BodySlot.PelvisPrimary],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_ArmorLewdLeotard: {
+    id: 'SLA_ArmorLewdLeotard',
+    description: 'SexLab Aroused lewd leotard',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Body],
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_ArmorRubber: {
+    id: 'SLA_ArmorRubber',
+    description: 'SexLab Aroused rubber/latex armor',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: torsoSlots,
+    irrelevantSlots: accessorySlots,
+    skipSlots: [],
+  },
+  SLA_PantiesNormal: {
+    id: 'SLA_PantiesNormal',
+    description: 'SexLab Aroused panties (underwear on the pelvis)',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.PelvisSecondary, BodySlot.PelvisPrimary],
+    irrelevantSlots: allSlotsExcept(
+      BodySlot.PelvisSecondary,
+      BodySlot.PelvisPrimary
+    ),
+    skipSlots: [],
+  },
+  SLA_KillerHeels: {
+    id: 'SLA_KillerHeels',
+    description: 'SexLab Aroused high heels',
+    type: KeywordType.Inclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [BodySlot.Feet],
+    irrelevantSlots: allSlotsExcept(BodySlot.Feet),
+    skipSlots: [],
+  },
+};
+
+/**
+ * Format of a keyword definition in a JSON file.
+ *
+ * @example
+ * ```json
+ * {
+ *   "id": "SLA_ArmorHalfNaked",
+ *   "description": "SexLab Aroused half naked armor",
+ *   "type": "Exclusive",
+ *   "genders": "Female",
+ *   "relevantSlots": [32],
+ *   "irrelevantSlots": ["30 - Head", 33, 37],
+ *   "skipSlots": []
+ * }
+ * ```
+ * @see KeywordInfo
+ */
+export interface KeywordDefinition {
+  /**
+   * The EditorID of the keword.
+   */
+  id: string;
+  /**
+   * Description to show users.
+   *
+   * @default id
+   */
+  description?: string;
+  /**
+   * Name of the KeywordType.
+   */
+  type: keyof typeof KeywordType;
+  /**
+   * Name of the GenderRule.
+   *
+   * @default 'Either'
+   */
+  genders?: keyof typeof GenderRule;
+  /**
+   * Slots given either by number (e.g., `32`) or by name (e.g., `"32 - Body"`)
+   */
+  relevantSlots: readonly (BodySlot | number)[];
+  /**
+   * @default []
+   */
+  irrelevantSlots?: readonly (BodySlot | number)[];
+  /**
+   * @default []
+   */
+  skipSlots?: readonly (BodySlot | number)[];
+  /**
+   * Rules to check (in order) before looking at nifs.
+   *
+   * @example
+   * ```json
+   * [{ "keywords": ["ArmorJewelry"], "action": "Skip" }]
+   * ```
+   * @default []
+   */
+  rules?: readonly RuleDefinition[];
+  /**
+   * Required for PrimarySlot keywords.
+   */
+  primarySlot?: BodySlot | number;
+  /**
+   * Required for Weighted keywords, with slots given by number or name,
+   * and at least one positive weight.
+   *
+   * @example { "32": 2, "49 - Unnamed": 1 }
+   */
+  slotWeights?: { [slot: string]: number };
+  /**
+   * @see KeywordInfo.coverageThreshold
+   */
+  coverageThreshold?: number;
+}
+
+/**
+ * Parse a body slot from a keyword definition.
+ *
+ * @see KeywordDefinition
+ */
+export function parseBodySlot(slot: unknown, path: string): BodySlot {
+  const slots = Object.values(BodySlot) as string[];
+
+  switch (typeof slot) {
+    case 'number': {
+      const found = slots.find((s) => s.startsWith(`${slot} - `));
+      if (found) {
+        return found as BodySlot;
+      }
+      break;
+    }
+    case 'string':
+      if (slots.includes(slot)) {
+        return slot as BodySlot;
+      }
+      break;
+  }
+
+  throw new Error(`${path}: unknown body slot ${JSON.stringify(slot)}`);
+}
+
+/**
+ * Check a list of rules, compiling their patterns.
+ *
+ * @param path Where the rules came from, for errors
+ * @see RuleDefinition
+ */
+export function parseKeywordRules(rules: unknown, path: string): KeywordRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error(`${path}: must be an array of rules`);
+  }
+  const actions = Object.keys(RuleAction).filter((k) => isNaN(+k));
+
+  return rules.map((rule: unknown, i) => {
+    const rulePath = `${path}[${i}]`;
+    if (!isObject(rule)) {
+      throw new Error(`${rulePath}: must be an object`);
+    }
+    const { editorid, name, plugin, keywords, action } = rule;
+
+    /**
+     * Compile an optional pattern.
+     */
+    function parsePattern(pattern: unknown, field: string) {
+      if (pattern === undefined || pattern === '') {
+        return undefined;
+      }
+      try {
+        if (typeof pattern !== 'string') {
+          throw new Error('must be a string');
+        }
+        return new RegExp(pattern, 'i');
+      } catch (err) {
+        throw new Error(`${rulePath}.${field}: ${err.message}`);
+      }
+    }
+
+    if (plugin !== undefined && typeof plugin !== 'string') {
+      throw new Error(`${rulePath}.plugin: must be a string`);
+    }
+    if (
+      keywords !== undefined &&
+      (!Array.isArray(keywords) ||
+        !keywords.every((keyword) => typeof keyword === 'string'))
+    ) {
+      throw new Error(`${rulePath}.keywords: must be an array of strings`);
+    }
+    if (typeof action !== 'string' || !actions.includes(action)) {
+      throw new Error(
+        `${rulePath}.action: must be one of ${actions.join(', ')}`
+      );
+    }
+
+    const parsed = {
+      editorid: parsePattern(editorid, 'editorid'),
+      name: parsePattern(name, 'name'),
+      plugin: plugin || undefined,
+      keywords,
+      action: RuleAction[action as keyof typeof RuleAction],
+    };
+    // Otherwise it would match every armor
+    if (
+      !parsed.editorid &&
+      !parsed.name &&
+      !parsed.plugin &&
+      !parsed.keywords?.length
+    ) {
+      throw new Error(`${rulePath}: needs at least one condition`);
+    }
+    return parsed;
+  });
+}
+
+/**
+ * Check a keyword definition and convert it to a KeywordInfo.
+ *
+ * @throws if definition is not valid
+ * @see KeywordDefinition
+ */
+export function parseKeywordDefinition(
+  def: unknown,
+  path: string
+): KeywordInfo {
+  if (typeof def !== 'object' || def === null || Array.isArray(def)) {
+    throw new Error(`${path}: keyword definition must be an object`);
+  }
+  const {
+    id,
+    description = id,
+    type,
+    genders = 'Either',
+    relevantSlots,
+    irrelevantSlots = [],
+    skipSlots = [],
+    rules = [],
+    primarySlot,
+    slotWeights,
+    coverageThreshold,
+  } = def as { [K in keyof KeywordDefinition]?: unknown };
+
+  if (typeof id !== 'string' || !id) {
+    throw new Error(`${path}.id: must be a non-empty string`);
+  }
+  if (typeof description !== 'string') {
+    throw new Error(`${path}.description: must be a string`);
+  }
+  const types = Object.keys(KeywordType).filter((k) => isNaN(+k));
+  if (typeof type !== 'string' || !types.includes(type)) {
+    throw new Error(`${path}.type: must be one of ${types.join(', ')}`);
+  }
+  const genderRules = Object.keys(GenderRule).filter((k) => isNaN(+k));
+  if (typeof genders !== 'string' || !genderRules.includes(genders)) {
+    throw new Error(
+      `${path}.genders: must be one of ${genderRules.join(', ')}`
+    );
+  }
+  if (type === 'PrimarySlot' && primarySlot === undefined) {
+    throw new Error(`${path}.primarySlot: required for PrimarySlot keywords`);
+  }
+  if (type === 'Weighted' && slotWeights === undefined) {
+    throw new Error(`${path}.slotWeights: required for Weighted keywords`);
+  }
+  if (
+    slotWeights !== undefined &&
+    (typeof slotWeights !== 'object' ||
+      slotWeights === null ||
+      Array.isArray(slotWeights))
+  ) {
+    throw new Error(`${path}.slotWeights: must be an object`);
+  }
+  if (
+    coverageThreshold !== undefined &&
+    (typeof coverageThreshold !== 'number' ||
+      !(coverageThreshold >= 0 && coverageThreshold <= 1))
+  ) {
+    throw new Error(`${path}.coverageThreshold: must be a number from 0 to 1`);
+  }
+
+  /**
+   * Check slot weights, keyed by slot number or name.
+   */
+  function parseSlotWeights(weights: object): { [slot: string]: number } {
+    const parsed: { [slot: string]: number } = {};
+    for (const [key, weight] of Object.entries(weights)) {
+      const slot = parseBodySlot(
+        isNaN(+key) ? key : +key,
+        `${path}.slotWeights.${key}`
+      );
+      if (typeof weight !== 'number' || !(weight >= 0)) {
+        throw new Error(`${path}.slotWeights.${key}: must be a number >= 0`);
+      }
+      parsed[slot] = weight;
+    }
+    // Otherwise every armor weighs nothing, which decides nothing
+    if (type === 'Weighted' && !Object.values(parsed).some((w) => w > 0)) {
+      throw new Error(
+        `${path}.slotWeights: needs a positive weight for Weighted keywords`
+      );
+    }
+    return parsed;
+  }
+
+  /**
+   * Check a list of body slots.
+   */
+  function parseSlots(slots: unknown, name: string): BodySlot[] {
+    if (!Array.isArray(slots)) {
+      throw new Error(`${path}.${name}: must be an array of body slots`);
+    }
+    return slots.map((slot, i) => parseBodySlot(slot, `${path}.${name}[${i}]`));
+  }
+
+  return {
+    id,
+    description,
+    type: KeywordType[type as keyof typeof KeywordType],
+    genders: GenderRule[genders as keyof typeof GenderRule],
+    relevantSlots: parseSlots(relevantSlots, 'relevantSlots'),
+    irrelevantSlots: parseSlots(irrelevantSlots, 'irrelevantSlots'),
+    skipSlots: parseSlots(skipSlots, 'skipSlots'),
+    rules: parseKeywordRules(rules, `${path}.rules`),
+    primarySlot:
+      primarySlot === undefined
+        ? undefined
+        : parseBodySlot(primarySlot, `${path}.primarySlot`),
+    slotWeights: slotWeights && parseSlotWeights(slotWeights),
+    coverageThreshold,
+  };
+}
+
+/**
+ * World model to display to user.
+ */
+export enum Model {
+  Male = 'Male world model\\MOD2',
+  Female = 'Female world model\\MOD3',
+}
+
+/**
+ * Which world model(s) to display to user.
+ *
+ * @see Settings.displayModel
+ */
+export type DisplayModel = keyof typeof Model | 'Both';
+
+/**
+ * Get the world models to check for a display model setting.
+ */
+export function displayedModels(
+  displayModel: DisplayModel
+): (keyof typeof Model)[] {
+  return displayModel === 'Both'
+    ? (Object.keys(Model) as (keyof typeof Model)[])
+    : [displayModel];
+}
+
+/**
+ * Check if a value is a plain object.
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Result of loading keyword definitions.
+ */
+export interface LoadedKeywords {
+  /**
+   * Built-in keywords merged with the valid user definitions.
+   */
+  keywords: Record<string, KeywordInfo>;
+  /**
+   * Messages about invalid definitions (which were ignored).
+   */
+  errors: string[];
+}
+
+/**
+ * Load the user keyword definitions and merge them into the built-in ones.
+ *
+ * Invalid files/definitions are skipped and reported in `errors`.
+ *
+ * @see builtinKeywords
+ */
+export function loadKeywordFiles(dir: string): LoadedKeywords {
+  const keywords = { ...builtinKeywords };
+  const errors: string[] = [];
+
+  if (!existsSync(dir)) {
+    return { keywords, errors };
+  }
+
+  // Track which file defined each keyword to report duplicates
+  const definedIn: { [id: string]: string } = {};
+  const files = readdirSync(dir)
+    .filter((file) => file.toLowerCase().endsWith('.json'))
+    .sort();
+  for (const file of files) {
+    let defs: unknown;
+    try {
+      defs = JSON.parse(readFileSync(join(dir, file), 'utf8'));
+    } catch (err) {
+      errors.push(`${file}: could not read JSON: ${err.message ?? err}`);
+      continue;
+    }
+
+    (Array.isArray(defs) ? defs : [defs]).forEach((def, i) => {
+      const path = Array.isArray(defs) ? `${file}[${i}]` : file;
+      try {
+        const info = parseKeywordDefinition(def, path);
+        if (definedIn[info.id]) {
+          throw new Error(
+            `${path}: keyword ${info.id} already defined in ${
+              definedIn[info.id]
+            }`
+          );
+        }
+        definedIn[info.id] = file;
+        keywords[info.id] = info;
+      } catch (err) {
+        errors.push(err.message);
+      }
+    });
+  }
+
+  return { keywords, errors };
+}
@@ -0,0 +1,1452 @@
+/**
+ * What has been learned about nifs from user's answers.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  BodySlot,
+  GenderRule,
+  invalidKeywordType,
+  isObject,
+  KeywordInfo,
+  KeywordType,
+  Model,
+} from './keywords';
+import { BSA, locateDataFile, normalizePath } from './data';
+
+/**
+ * Possible answers from user about applying keyword to ARMO.
+ */
+export enum Answer {
+  /**
+   * Tag definitely applies (do not ask again)
+   */
+  Yes = 1,
+  /**
+   * Tag definitely does not apply (do not ask again)
+   */
+  No,
+  /**
+   * Tag maybe applies (ask again if `redoMaybes`, o.w. treat as Yes)
+   */
+  MaybeYes,
+  /**
+   * Tag maybe does not apply (ask again if `redoMaybes`, o.w. treat as No)
+   */
+  MaybeNo,
+}
+
+/**
+ * Possible previous answers about a nif.
+ *
+ * @see Answer
+ * @see Memory
+ */
+export type Answered = Answer.Yes | Answer.No | undefined;
+
+/**
+ * Names of answers to show users.
+ */
+export const answerNames: { readonly [A in Answer]: string } = {
+  [Answer.Yes]: 'Yes',
+  [Answer.No]: 'No',
+  [Answer.MaybeYes]: 'Maybe Yes',
+  [Answer.MaybeNo]: 'Maybe No',
+};
+
+/**
+ * Choices offered to user about applying a keyword to an ARMO.
+ */
+export enum Choice {
+  Yes = 'Yes',
+  MaybeYes = 'Maybe Yes',
+  MaybeNo = 'Maybe No',
+  No = 'No',
+  /**
+   * Do not apply keyword, and do not learn anything
+   */
+  Skip = 'Skip',
+}
+
+/**
+ * How to track what we have "learned".
+ */
+export interface Memory {
+  /**
+   * The names we have seen this as.
+   */
+  filenames: string[];
+  /**
+   * Knowledge about which keywords apply.
+   */
+  keywords: { [keyword: string]: Answer | undefined };
+  /**
+   * Hashes of earlier versions of this nif (most recent first).
+   *
+   * @see carryAnswers
+   */
+  previous?: string[];
+}
+
+/**
+ * How many of a constraint's nifs its answer applies to.
+ *
+ * @see Constraint
+ */
+export enum Quantifier {
+  /**
+   * At least one of the nifs
+   */
+  Some = 'some',
+  /**
+   * Every one of the nifs
+   */
+  All = 'all',
+}
+
+/**
+ * An answer about a group of nifs,
+ * which we may not (yet) be able to attribute to individual nifs.
+ *
+ * @example At least one of these nifs is not SOS_Revealing
+ * @see solveConstraints
+ */
+export interface Constraint {
+  /**
+   * Keyword the answer is about
+   */
+  keyword: string;
+  /**
+   * How many of the nifs the answer applies to.
+   */
+  quantifier: Quantifier;
+  /**
+   * What the user answered
+   */
+  answer: Answer;
+  /**
+   * Hashes of the nifs involved
+   */
+  hashes: string[];
+}
+
+/**
+ * Remember things by hash rather than file.
+ *
+ * Nifs shown with alternate textures are remembered separately
+ * from the plain nif, by a key combining the nif and texture hashes.
+ *
+ * @see textureSeparator
+ */
+export interface Memories {
+  /**
+   * What we know about individual nifs.
+   */
+  nifs: { [filehash: string]: Memory | undefined };
+  /**
+   * Answers about groups of nifs which are not resolved yet.
+   */
+  constraints: Constraint[];
+}
+
+/**
+ * @internal
+ */
+export function invalidQuantifier(quantifier: never): never {
+  throw new Error(`Invalid quantifier: ${quantifier}`);
+}
+
+/**
+ * Check if an answer is Yes or MaybeYes.
+ */
+export function isYes(answer: Answer): boolean {
+  return answer === Answer.Yes || answer === Answer.MaybeYes;
+}
+
+/**
+ * Check if an answer is MaybeYes or MaybeNo.
+ */
+export function isMaybe(answer: Answer): boolean {
+  return answer === Answer.MaybeYes || answer === Answer.MaybeNo;
+}
+
+/**
+ * Make an Answer from its yes/no and maybe parts.
+ */
+export function toAnswer(yes: boolean, maybe: boolean): Answer {
+  if (maybe) {
+    return yes ? Answer.MaybeYes : Answer.MaybeNo;
+  }
+  return yes ? Answer.Yes : Answer.No;
+}
+
+/**
+ * Separates the nif hash from the alternate textures hash in a memory key.
+ *
+ * @see textureHash
+ */
+export const textureSeparator = '+';
+
+/**
+ * Get what we know about a keyword for a nif.
+ *
+ * Falls back to the answer for the plain nif
+ * if there is none for its alternate textures.
+ */
+export function getAnswer(
+  memories: Memories,
+  hash: string,
+  keyword: string
+): Answer | undefined {
+  const [nifHash] = hash.split(textureSeparator);
+
+  return (
+    memories.nifs[hash]?.keywords[keyword] ??
+    memories.nifs[nifHash]?.keywords[keyword]
+  );
+}
+
+/**
+ * Find an earlier version of a nif in memories, by its filename.
+ *
+ * Only nifs with the same alternate textures count.
+ *
+ * @returns Hash of the latest earlier version with answers
+ */
+export function findPreviousVersion(
+  memories: Memories,
+  hash: string,
+  filename: string
+): string | undefined {
+  const [, textures] = hash.split(textureSeparator);
+  const candidates = Object.keys(memories.nifs).filter((other) => {
+    const { filenames, keywords } = memories.nifs[other]!;
+    return (
+      other !== hash &&
+      other.split(textureSeparator)[1] === textures &&
+      filenames.includes(filename) &&
+      Object.keys(keywords).length > 0
+    );
+  });
+
+  // Latest is the one no other candidate replaced
+  return (
+    candidates.find(
+      (candidate) =>
+        !candidates.some((other) =>
+          memories.nifs[other]!.previous?.includes(candidate)
+        )
+    ) ?? candidates[0]
+  );
+}
+
+/**
+ * Copy answers from an earlier version of a nif, linking the two.
+ *
+ * @param maybe Whether to downgrade the answers to "maybe"
+ */
+export function carryAnswers(
+  memories: Memories,
+  from: string,
+  to: string,
+  maybe: boolean
+): void {
+  const old = memories.nifs[from]!;
+  const { filenames = [], keywords = {} } = memories.nifs[to] ?? {};
+
+  for (const keyword in old.keywords) {
+    const answer = old.keywords[keyword]!;
+    keywords[keyword] ??= maybe ? toAnswer(isYes(answer), true) : answer;
+  }
+
+  memories.nifs[to] = {
+    filenames: [...new Set([...filenames, ...old.filenames])],
+    keywords,
+    previous: [from, ...(old.previous ?? [])],
+  };
+}
+
+/**
+ * Add a new hash/answer pair to memories.
+ */
+export function rememberAnswer(
+  memories: Memories,
+  keyword: string,
+  hash: string,
+  answer: Answer
+): void {
+  const { filenames = [], keywords = {}, ...memory } =
+    memories.nifs[hash] ?? {};
+
+  keywords[keyword] = answer;
+
+  memories.nifs[hash] = { ...memory, filenames, keywords };
+}
+
+/**
+ * Record an answer about a group of nifs
+ * and resolve whatever we can from it.
+ *
+ * @see solveConstraints
+ */
+export function addConstraint(
+  memories: Memories,
+  constraint: Constraint,
+  log?: (message: string) => void
+): void {
+  memories.constraints.push(constraint);
+  solveConstraints(memories, log);
+}
+
+/**
+ * Resolve as many pending constraints as possible
+ * into answers about individual nifs.
+ *
+ * A "some" constraint is resolved once all but one of its nifs
+ * are known not to match its answer,
+ * and is dropped once any of its nifs is known to match.
+ * Resolving one constraint can resolve others, so repeat until stable.
+ */
+export function solveConstraints(
+  memories: Memories,
+  log: (message: string) => void = () => {}
+): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    memories.constraints = memories.constraints.filter((constraint) => {
+      const { keyword, quantifier, answer, hashes } = constraint;
+
+      switch (quantifier) {
+        case Quantifier.All:
+          hashes.forEach((hash) =>
+            rememberAnswer(memories, keyword, hash, answer)
+          );
+          changed = true;
+          return false;
+        case Quantifier.Some: {
+          const known = hashes.map((hash) =>
+            getAnswer(memories, hash, keyword)
+          );
+
+          // Check if a nif already accounts for this answer
+          if (
+            known.some((k) => k !== undefined && isYes(k) === isYes(answer))
+          ) {
+            return false;
+          }
+
+          // Every known nif is the opposite of answer
+          const unknown = hashes.filter((_, i) => known[i] === undefined);
+          if (unknown.length > 1) {
+            // Still ambiguous
+            return true;
+          }
+          if (unknown.length === 0) {
+            log(`Dropping contradictory ${keyword} answer about ${hashes}`);
+            return false;
+          }
+
+          // Only one nif left, it must be the one
+          // It's only a "maybe" if anything it was deduced from was
+          const maybe = isMaybe(answer) || known.some((k) => k && isMaybe(k));
+          rememberAnswer(
+            memories,
+            keyword,
+            unknown[0],
+            toAnswer(isYes(answer), maybe)
+          );
+          log(`Deduced ${keyword} answer for ${unknown[0]}`);
+          changed = true;
+          return false;
+        }
+        default:
+          return invalidQuantifier(quantifier);
+      }
+    });
+  }
+}
+
+/**
+ * Find a pending "some" constraint entirely within the given nifs.
+ *
+ * If one exists, at least one of the nifs has answer,
+ * even if we do not know which.
+ *
+ * @param yes Whether to look for Yes or No answers
+ * @param maybes Whether to consider "maybe" answers
+ */
+export function findConstraint(
+  memories: Memories,
+  keyword: string,
+  hashes: readonly string[],
+  yes: boolean,
+  maybes: boolean
+): Constraint | undefined {
+  return memories.constraints.find(
+    ({ keyword: k, quantifier, answer, hashes: h }) =>
+      k === keyword &&
+      quantifier === Quantifier.Some &&
+      isYes(answer) === yes &&
+      (maybes || !isMaybe(answer)) &&
+      h.every((hash) => hashes.includes(hash))
+  );
+}
+
+/**
+ * Get previous answers about nifs for a keyword.
+ *
+ * "Maybe" answers count as definite unless `redoMaybes`.
+ */
+export function recallAnswers(
+  memories: Memories,
+  keyword: string,
+  hashes: readonly string[],
+  redoMaybes: boolean
+): Answered[] {
+  return hashes.map((hash) => {
+    const answer = getAnswer(memories, hash, keyword);
+
+    // Handle "maybe" memories
+    switch (answer) {
+      case Answer.MaybeYes:
+        return redoMaybes ? undefined : Answer.Yes;
+      case Answer.MaybeNo:
+        return redoMaybes ? undefined : Answer.No;
+      default:
+        return answer;
+    }
+  });
+}
+
+/**
+ * Body slots occupied by each nif of an ARMO.
+ */
+export interface NifSlots {
+  [hash: string]: readonly BodySlot[];
+}
+
+/**
+ * Get the nifs which decide a PrimarySlot keyword.
+ *
+ * @see KeywordType.PrimarySlot
+ */
+export function primaryHashes(
+  { primarySlot }: KeywordInfo,
+  hashes: readonly string[],
+  slots: NifSlots
+): readonly string[] {
+  const primary = hashes.filter((hash) => slots[hash]?.includes(primarySlot!));
+  return primary.length > 0 ? primary : hashes;
+}
+
+/**
+ * Get the weight of each nif for a Majority or Weighted keyword.
+ *
+ * @see KeywordType.Weighted
+ */
+export function nifWeights(
+  { type, slotWeights = {} }: KeywordInfo,
+  hashes: readonly string[],
+  slots: NifSlots
+): number[] {
+  return hashes.map((hash) =>
+    type === KeywordType.Weighted
+      ? (slots[hash] ?? []).reduce(
+          (sum, slot) => sum + (slotWeights[slot] ?? 0),
+          0
+        )
+      : 1
+  );
+}
+
+/**
+ * Add up the weights of the nifs with an answer.
+ */
+export function weighAnswers(
+  weights: readonly number[],
+  answers: readonly Answered[],
+  answer: Answered
+): number {
+  return weights.reduce(
+    (sum, weight, i) => (answers[i] === answer ? sum + weight : sum),
+    0
+  );
+}
+
+/**
+ * Try to choose tag automagically based on relevant past answers.
+ *
+ * @param relevantHashes Hashes of the nifs relevant to keyword
+ * @param slots Body slots of the nifs
+ * @returns Whether keyword applies, or undefined if we need to ask
+ */
+export function inferKeyword(
+  memories: Memories,
+  info: KeywordInfo,
+  relevantHashes: readonly string[],
+  slots: NifSlots,
+  redoMaybes: boolean,
+  log: (message: string) => void = () => {}
+): boolean | undefined {
+  const { id: keyword, type } = info;
+
+  if (type === KeywordType.PrimarySlot) {
+    // Only the nifs in the primary slot matter
+    return inferKeyword(
+      memories,
+      { ...info, type: KeywordType.Exclusive },
+      primaryHashes(info, relevantHashes, slots),
+      slots,
+      redoMaybes,
+      log
+    );
+  }
+
+  const relevantAnswers = recallAnswers(
+    memories,
+    keyword,
+    relevantHashes,
+    redoMaybes
+  );
+
+  // TODO: Clean up this logic?
+  switch (type) {
+    case KeywordType.Inclusive:
+      // Assume yes if single yes?
+      if (relevantAnswers.some((answer) => answer === Answer.Yes)) {
+        log(`One of the relevant nifs already known to be ${keyword}`);
+        return true;
+      }
+      // Assume no if all no?
+      if (relevantAnswers.every((answer) => answer === Answer.No)) {
+        log(`All relevant nifs already known to not be ${keyword}`);
+        return false;
+      }
+      // Assume yes if some subset known to have a yes
+      if (
+        findConstraint(memories, keyword, relevantHashes, true, !redoMaybes)
+      ) {
+        log(`Some of the relevant nifs already known to be ${keyword}`);
+        return true;
+      }
+      break;
+    case KeywordType.Exclusive:
+      // Assume yes if all yes
+      if (relevantAnswers.every((answer) => answer === Answer.Yes)) {
+        log(`All relevant nifs already known to be ${keyword}`);
+        return true;
+      }
+      // Assume no if single no?
+      if (relevantAnswers.some((answer) => answer === Answer.No)) {
+        log(`One of the relevant nifs already known to not be ${keyword}`);
+        return false;
+      }
+      // Assume no if some subset known to have a no
+      if (
+        findConstraint(memories, keyword, relevantHashes, false, !redoMaybes)
+      ) {
+        log(`Some of the relevant nifs already known to not be ${keyword}`);
+        return false;
+      }
+      break;
+    case KeywordType.Majority:
+    case KeywordType.Weighted: {
+      const weights = nifWeights(info, relevantHashes, slots);
+      const total = weights.reduce((a, b) => a + b, 0);
+      // Assume yes if yes outweighs everything else
+      if (weighAnswers(weights, relevantAnswers, Answer.Yes) > total / 2) {
+        log(`Most of the relevant nifs already known to be ${keyword}`);
+        return true;
+      }
+      // Assume no if yes can no longer outweigh no
+      if (weighAnswers(weights, relevantAnswers, Answer.No) >= total / 2) {
+        log(`Enough relevant nifs already known to not be ${keyword}`);
+        return false;
+      }
+      break;
+    }
+    default:
+      return invalidKeywordType(type);
+  }
+
+  // Need to ask the user
+  return undefined;
+}
+
+/**
+ * Do "learning" from user's choice about applying a keyword to an ARMO.
+ *
+ * @param hashes Hashes of all the ARMO's nifs
+ * @param relevantHashes Hashes of the nifs relevant to keyword
+ * @param slots Body slots of the nifs
+ * @returns Whether to apply keyword to the ARMO
+ */
+export function learnKeyword(
+  memories: Memories,
+  info: KeywordInfo,
+  choice: Choice,
+  hashes: readonly string[],
+  relevantHashes: readonly string[],
+  slots: NifSlots,
+  redoMaybes: boolean,
+  log: (message: string) => void = () => {}
+): boolean {
+  const { id: keyword, type } = info;
+
+  if (type === KeywordType.PrimarySlot) {
+    // Only the nifs in the primary slot matter
+    const primary = primaryHashes(info, relevantHashes, slots);
+    return learnKeyword(
+      memories,
+      { ...info, type: KeywordType.Exclusive },
+      choice,
+      primary,
+      primary,
+      slots,
+      redoMaybes,
+      log
+    );
+  }
+
+  const relevantAnswers = recallAnswers(
+    memories,
+    keyword,
+    relevantHashes,
+    redoMaybes
+  );
+
+  if (choice === Choice.Skip) {
+    return false;
+  }
+  const yes = choice === Choice.Yes || choice === Choice.MaybeYes;
+  const answer = toAnswer(
+    yes,
+    choice === Choice.MaybeYes || choice === Choice.MaybeNo
+  );
+
+  // TODO: Clean up this logic?
+  switch (type) {
+    case KeywordType.Inclusive:
+      if (yes) {
+        // Filter out relevant nifs that are definitely not tag
+        const hhashes = relevantHashes.filter(
+          (_, i) => relevantAnswers[i] !== Answer.No
+        );
+        // If only one nif left, it must be the keyword one
+        if (hhashes.length === 1) {
+          rememberAnswer(memories, keyword, hhashes[0], answer);
+        } else {
+          // Remember at least one of them is keyword
+          addConstraint(
+            memories,
+            { keyword, quantifier: Quantifier.Some, answer, hashes: hhashes },
+            log
+          );
+        }
+      } else {
+        // Record all nifs as not keyword
+        addConstraint(
+          memories,
+          { keyword, quantifier: Quantifier.All, answer, hashes: [...hashes] },
+          log
+        );
+      }
+      break;
+    case KeywordType.Exclusive:
+      if (yes) {
+        // Record all nifs as keyword
+        addConstraint(
+          memories,
+          { keyword, quantifier: Quantifier.All, answer, hashes: [...hashes] },
+          log
+        );
+      } else {
+        // Filter out relevant nifs that are definitely revealing
+        const hhashes = relevantHashes.filter(
+          (_, i) => relevantAnswers[i] !== Answer.Yes
+        );
+        // If only one nif left, it must be the non-revealing one
+        if (hhashes.length === 1) {
+          rememberAnswer(memories, keyword, hhashes[0], answer);
+        } else {
+          // Remember at least one of them is not keyword
+          addConstraint(
+            memories,
+            { keyword, quantifier: Quantifier.Some, answer, hashes: hhashes },
+            log
+          );
+        }
+      }
+      break;
+    case KeywordType.Majority:
+    case KeywordType.Weighted: {
+      const weights = nifWeights(info, relevantHashes, slots);
+      const total = weights.reduce((a, b) => a + b, 0);
+      const enough = (weight: number) =>
+        yes ? weight > total / 2 : weight >= total / 2;
+
+      const known = weighAnswers(
+        weights,
+        relevantAnswers,
+        yes ? Answer.Yes : Answer.No
+      );
+      if (enough(known)) {
+        // Already accounted for
+        break;
+      }
+      // Only unknown nifs that weigh anything can account for answer
+      const unknown = relevantHashes
+        .map((hash, i) => ({ hash, weight: weights[i] }))
+        .filter(
+          ({ weight }, i) => weight > 0 && relevantAnswers[i] === undefined
+        );
+      const unknownWeight = unknown.reduce(
+        (sum, { weight }) => sum + weight,
+        0
+      );
+      if (!enough(known + unknownWeight)) {
+        // Even every unknown nif having the answer would not be enough
+        log(`Dropping contradictory ${keyword} answer about ${relevantHashes}`);
+        break;
+      }
+
+      // Nifs without which the answer is impossible must have it
+      const forced = unknown.filter(
+        ({ weight }) => !enough(known + unknownWeight - weight)
+      );
+      forced.forEach(({ hash }) =>
+        rememberAnswer(memories, keyword, hash, answer)
+      );
+      if (forced.length === 0 && unknown.length > 0) {
+        // Remember at least one of them has answer
+        addConstraint(
+          memories,
+          {
+            keyword,
+            quantifier: Quantifier.Some,
+            answer,
+            hashes: unknown.map(({ hash }) => hash),
+          },
+          log
+        );
+      }
+      break;
+    }
+    default:
+      return invalidKeywordType(type);
+  }
+
+  return yes;
+}
+
+/**
+ * The nifs of an ARMO for one world model.
+ */
+export interface ModelNifs {
+  model: keyof typeof Model;
+  /**
+   * Paths of the nifs (relative to Data folder)
+   */
+  nifs: string[];
+  /**
+   * Hashes of the nifs
+   */
+  hashes: string[];
+  /**
+   * Hashes of the nifs relevant to each keyword
+   */
+  relevantHashes: { [keyword: string]: string[] };
+  /**
+   * Body slots of the nifs
+   */
+  slots: NifSlots;
+}
+
+/**
+ * @internal
+ */
+export function invalidGenderRule(rule: never): never {
+  throw new Error(`Invalid gender rule: ${rule}`);
+}
+
+/**
+ * Get the models which decide a keyword.
+ *
+ * Falls back to all the models if the ARMO lacks the one the rule wants.
+ */
+export function genderModels(
+  { genders }: KeywordInfo,
+  models: readonly ModelNifs[]
+): readonly ModelNifs[] {
+  switch (genders) {
+    case GenderRule.Either:
+    case GenderRule.Both:
+      return models;
+    case GenderRule.Male:
+    case GenderRule.Female: {
+      const model = GenderRule[genders] as keyof typeof Model;
+      const found = models.filter((nifs) => nifs.model === model);
+      return found.length > 0 ? found : models;
+    }
+    default:
+      return invalidGenderRule(genders);
+  }
+}
+
+/**
+ * Get the models which decide a keyword and have nifs relevant to it.
+ *
+ * Models without relevant nifs can not tell us anything,
+ * and would otherwise trivially satisfy "all nifs" checks.
+ *
+ * @see genderModels
+ */
+export function relevantModels(
+  info: KeywordInfo,
+  models: readonly ModelNifs[]
+): readonly ModelNifs[] {
+  return genderModels(info, models).filter(
+    ({ relevantHashes }) => relevantHashes[info.id].length > 0
+  );
+}
+
+/**
+ * Combine whether a keyword applies to each model.
+ *
+ * @returns Whether keyword applies, or undefined if still unknown
+ */
+export function combineGenders(
+  genders: GenderRule,
+  decisions: readonly (boolean | undefined)[]
+): boolean | undefined {
+  // Single model rules have only one decision left
+  const all = genders === GenderRule.Both;
+
+  if (decisions.some((decision) => decision === !all)) {
+    return !all;
+  }
+  if (decisions.every((decision) => decision === all)) {
+    return all;
+  }
+  return undefined;
+}
+
+/**
+ * Try to choose tag automagically for each model of an ARMO.
+ *
+ * @returns Whether keyword applies (undefined if we need to ask),
+ *  and which models to ask user about
+ * @see inferKeyword
+ */
+export function inferModels(
+  memories: Memories,
+  info: KeywordInfo,
+  models: readonly ModelNifs[],
+  redoMaybes: boolean,
+  log: (message: string) => void = () => {}
+): { apply?: boolean; ask: (keyof typeof Model)[] } {
+  const decide = relevantModels(info, models);
+  const decisions = decide.map(({ model, relevantHashes, slots }) =>
+    inferKeyword(
+      memories,
+      info,
+      relevantHashes[info.id],
+      slots,
+      redoMaybes,
+      (msg) => log(models.length > 1 ? `${model} model: ${msg}` : msg)
+    )
+  );
+
+  return {
+    apply: combineGenders(info.genders, decisions),
+    ask: decide
+      .filter((_, i) => decisions[i] === undefined)
+      .map(({ model }) => model),
+  };
+}
+
+/**
+ * Identify the question about a keyword by the nifs involved.
+ *
+ * ARMOs with the same relevant nifs for the models asked about
+ * get the same key, so they only need to be asked about once.
+ */
+export function questionKey(
+  keyword: string,
+  models: readonly ModelNifs[],
+  ask: readonly (keyof typeof Model)[]
+): string {
+  return JSON.stringify([
+    keyword,
+    ...models
+      .filter(({ model }) => ask.includes(model))
+      .map(({ model, relevantHashes }) => [
+        model,
+        [...new Set(relevantHashes[keyword])].sort(),
+      ]),
+  ]);
+}
+
+/**
+ * Do "learning" from user's choices about each model of an ARMO.
+ *
+ * Models without a choice are decided from what we already know.
+ *
+ * @returns Whether to apply keyword to the ARMO, or undefined if skipped
+ * @see learnKeyword
+ */
+export function learnModels(
+  memories: Memories,
+  info: KeywordInfo,
+  choices: { [model: string]: Choice },
+  models: readonly ModelNifs[],
+  redoMaybes: boolean,
+  log: (message: string) => void = () => {}
+): boolean | undefined {
+  const decisions = relevantModels(info, models).map(
+    ({ model, hashes, relevantHashes, slots }) => {
+      const choice = choices[model];
+      if (!choice) {
+        return inferKeyword(
+          memories,
+          info,
+          relevantHashes[info.id],
+          slots,
+          redoMaybes
+        );
+      }
+      if (choice === Choice.Skip) {
+        return undefined;
+      }
+      return learnKeyword(
+        memories,
+        info,
+        choice,
+        hashes,
+        relevantHashes[info.id],
+        slots,
+        redoMaybes,
+        log
+      );
+    }
+  );
+
+  return combineGenders(info.genders, decisions);
+}
+
+/**
+ * Contents of a memory file.
+ *
+ * @see memoryFile
+ */
+export interface MemoryFile extends Memories {
+  /**
+   * Version of the file format
+   *
+   * @see memoryVersion
+   */
+  version: number;
+}
+
+/**
+ * Contents of a memory file of any version, before validation.
+ */
+export type UnknownMemoryFile = Record<string, unknown>;
+
+/**
+ * Upgrades for older memory files.
+ *
+ * Migration `i` converts a version `i` file to version `i + 1`.
+ * The result is only validated after the last migration.
+ */
+export const migrations: readonly ((
+  contents: UnknownMemoryFile
+) => UnknownMemoryFile)[] = [
+  // 0 -> 1: Versions without a number were either just the nifs,
+  // or nifs and constraints
+  (contents) =>
+    contents.nifs
+      ? { ...contents, version: 1 }
+      : { version: 1, nifs: contents, constraints: [] },
+  // 1 -> 2: Added alternate textures hashes to keys
+  (contents) => ({ ...contents, version: 2 }),
+];
+
+/**
+ * Current version of the memory file format.
+ */
+export const memoryVersion = migrations.length;
+
+/**
+ * Check if a value is a valid Answer.
+ */
+export function isAnswer(answer: unknown): answer is Answer {
+  return (
+    answer === Answer.Yes ||
+    answer === Answer.No ||
+    answer === Answer.MaybeYes ||
+    answer === Answer.MaybeNo
+  );
+}
+
+/**
+ * Check the structure of (current version) memory file contents.
+ *
+ * @throws if contents are not valid
+ * @see MemoryFile
+ */
+export function validateMemories(contents: unknown): Memories {
+  if (!isObject(contents)) {
+    throw new Error('memories must be an object');
+  }
+  const { nifs, constraints } = contents;
+
+  if (!isObject(nifs)) {
+    throw new Error('nifs: must be an object');
+  }
+  for (const hash in nifs) {
+    const memory = nifs[hash];
+    const path = `nifs.${hash}`;
+    if (!/^[0-9a-f]{40}(\+[0-9a-f]{40})?$/.test(hash)) {
+      throw new Error(`${path}: not a SHA1 hash (with optional textures hash)`);
+    }
+    if (!isObject(memory)) {
+      throw new Error(`${path}: must be an object`);
+    }
+    const { filenames, keywords, previous = [] } = memory;
+    if (
+      !Array.isArray(previous) ||
+      !previous.every((hash) => typeof hash === 'string')
+    ) {
+      throw new Error(`${path}.previous: must be an array of strings`);
+    }
+    if (
+      !Array.isArray(filenames) ||
+      !filenames.every((filename) => typeof filename === 'string')
+    ) {
+      throw new Error(`${path}.filenames: must be an array of strings`);
+    }
+    if (!isObject(keywords)) {
+      throw new Error(`${path}.keywords: must be an object`);
+    }
+    for (const keyword in keywords) {
+      if (!isAnswer(keywords[keyword])) {
+        throw new Error(
+          `${path}.keywords.${keyword}: invalid answer ${JSON.stringify(
+            keywords[keyword]
+          )}`
+        );
+      }
+    }
+  }
+
+  if (!Array.isArray(constraints)) {
+    throw new Error('constraints: must be an array');
+  }
+  constraints.forEach((constraint: unknown, i) => {
+    const path = `constraints[${i}]`;
+    if (!isObject(constraint)) {
+      throw new Error(`${path}: must be an object`);
+    }
+    const { keyword, quantifier, answer, hashes } = constraint;
+    if (typeof keyword !== 'string') {
+      throw new Error(`${path}.keyword: must be a string`);
+    }
+    if (!(Object.values(Quantifier) as unknown[]).includes(quantifier)) {
+      throw new Error(`${path}.quantifier: invalid quantifier ${quantifier}`);
+    }
+    if (!isAnswer(answer)) {
+      throw new Error(`${path}.answer: invalid answer ${answer}`);
+    }
+    if (
+      !Array.isArray(hashes) ||
+      !hashes.every((hash) => typeof hash === 'string')
+    ) {
+      throw new Error(`${path}.hashes: must be an array of strings`);
+    }
+  });
+
+  return { nifs, constraints } as Memories;
+}
+
+/**
+ * Upgrade memory file contents of any version to the current one,
+ * and check them.
+ *
+ * @throws if contents are not valid, or from a newer version
+ * @see migrations
+ */
+export function migrateMemories(parsed: unknown): Memories {
+  if (!isObject(parsed)) {
+    throw new Error('memories must be an object');
+  }
+  let contents = parsed;
+
+  let version = typeof contents.version === 'number' ? contents.version : 0;
+  if (version > memoryVersion) {
+    throw new Error(
+      `version ${version} is newer than supported version ${memoryVersion}`
+    );
+  }
+  while (version < memoryVersion) {
+    contents = migrations[version++](contents);
+  }
+
+  return validateMemories(contents);
+}
+
+/**
+ * Two different answers about the same nif and keyword.
+ */
+export interface MergeConflict {
+  /**
+   * Hash of the nif
+   */
+  hash: string;
+  /**
+   * Names we (or they) have seen the nif as
+   */
+  filenames: readonly string[];
+  /**
+   * Keyword the answers are about
+   */
+  keyword: string;
+  /**
+   * Our answer
+   */
+  ours: Answer;
+  /**
+   * Imported answer
+   */
+  theirs: Answer;
+}
+
+/**
+ * What happened when merging memories.
+ *
+ * @see mergeMemories
+ */
+export interface MergeSummary {
+  /**
+   * Number of nifs which were new to us
+   */
+  addedNifs: number;
+  /**
+   * Number of answers which were new to us
+   */
+  addedAnswers: number;
+  /**
+   * Conflicts where we took their answer
+   */
+  changed: MergeConflict[];
+  /**
+   * Conflicts where we kept our answer
+   */
+  skipped: MergeConflict[];
+}
+
+/**
+ * Merge other memories into ours.
+ *
+ * Does not modify `newMemories`.
+ *
+ * @param resolve Decides conflicts, returning true to take their answer
+ */
+export function mergeMemories(
+  memories: Memories,
+  newMemories: Memories,
+  resolve: (conflict: MergeConflict) => boolean
+): MergeSummary {
+  const summary: MergeSummary = {
+    addedNifs: 0,
+    addedAnswers: 0,
+    changed: [],
+    skipped: [],
+  };
+
+  for (const hash in newMemories.nifs) {
+    const { filenames, keywords, previous } = newMemories.nifs[hash]!;
+    const memory = memories.nifs[hash];
+
+    if (!memory) {
+      // Hash is new to us
+      memories.nifs[hash] = {
+        filenames: [...filenames],
+        keywords: { ...keywords },
+        ...(previous && { previous: [...previous] }),
+      };
+      summary.addedNifs++;
+      summary.addedAnswers += Object.keys(keywords).length;
+      continue;
+    }
+
+    // Union of filenames
+    memory.filenames = [...new Set([...memory.filenames, ...filenames])];
+
+    // Merge keyword answers
+    for (const keyword in keywords) {
+      const ours = memory.keywords[keyword];
+      const theirs = keywords[keyword]!;
+
+      if (ours === undefined) {
+        memory.keywords[keyword] = theirs;
+        summary.addedAnswers++;
+        continue;
+      }
+      if (ours === theirs) {
+        continue;
+      }
+
+      const conflict = {
+        hash,
+        filenames: memory.filenames,
+        keyword,
+        ours,
+        theirs,
+      };
+      if (resolve(conflict)) {
+        memory.keywords[keyword] = theirs;
+        summary.changed.push(conflict);
+      } else {
+        summary.skipped.push(conflict);
+      }
+    }
+  }
+
+  // Add their unresolved answers to ours
+  const known = new Set(memories.constraints.map((c) => JSON.stringify(c)));
+  newMemories.constraints.forEach((constraint) => {
+    if (!known.has(JSON.stringify(constraint))) {
+      memories.constraints.push({
+        ...constraint,
+        hashes: [...constraint.hashes],
+      });
+    }
+  });
+  solveConstraints(memories);
+
+  return summary;
+}
+
+/**
+ * Which memories to export for sharing.
+ *
+ * @see exportMemories
+ */
+export interface ExportOptions {
+  /**
+   * Keywords to export answers for (all if empty)
+   *
+   * @default []
+   */
+  keywords: readonly string[];
+  /**
+   * Mesh folders to export nifs from, one per line (all if empty)
+   *
+   * @example armor\MyMod
+   * @default ''
+   */
+  folders: string;
+  /**
+   * Plugins to export nifs of, one per line (all if empty)
+   *
+   * Nifs are selected by the models of the ARMAs in the plugins.
+   *
+   * @example MyMod.esp
+   * @default ''
+   */
+  plugins: string;
+  /**
+   * Whether to leave out "maybe" answers
+   *
+   * @default false
+   */
+  definiteOnly: boolean;
+}
+
+/**
+ * Export everything by default.
+ *
+ * Also fills in options missing from settings saved by older versions.
+ */
+export const defaultExportOptions: ExportOptions = {
+  keywords: [],
+  folders: '',
+  plugins: '',
+  definiteOnly: false,
+};
+
+/**
+ * Make a copy of memories with only the parts selected for export.
+ *
+ * Nifs are selected if any of their filenames are under one of the folders,
+ * and (if given) are one of the plugins' nifs.
+ * Constraints are only included if all their nifs are.
+ *
+ * @param pluginNifs Paths of the nifs used by the chosen plugins
+ * @see ExportOptions
+ * @see findPluginNifs
+ */
+export function filterMemories(
+  memories: Memories,
+  { keywords, folders, definiteOnly }: ExportOptions,
+  pluginNifs?: ReadonlySet<string>
+): Memories {
+  const prefixes = folders
+    .split(/\r?\n/)
+    .map((folder) => normalizePath(folder.trim()).replace(/^meshes\\/, ''))
+    .filter((folder) => !!folder)
+    .map((folder) => `meshes\\${folder.replace(/\\?$/, '\\')}`);
+  const wanted = (keyword: string, answer: Answer) =>
+    (keywords.length === 0 || keywords.includes(keyword)) &&
+    !(definiteOnly && isMaybe(answer));
+
+  // Find nifs under the chosen folders and from the chosen plugins
+  const hashes = Object.keys(memories.nifs).filter((hash) =>
+    memories.nifs[hash]!.filenames.some(
+      (filename) =>
+        (prefixes.length === 0 ||
+          prefixes.some((prefix) =>
+            normalizePath(filename).startsWith(prefix)
+          )) &&
+        (!pluginNifs || pluginNifs.has(normalizePath(filename)))
+    )
+  );
+
+  const constraints = memories.constraints
+    .filter(
+      ({ keyword, answer, hashes: h }) =>
+        wanted(keyword, answer) && h.every((hash) => hashes.includes(hash))
+    )
+    .map((constraint) => ({ ...constraint, hashes: [...constraint.hashes] }));
+
+  const nifs: Memories['nifs'] = {};
+  hashes.forEach((hash) => {
+    const { filenames, keywords: answers } = memories.nifs[hash]!;
+
+    const exported: Memory['keywords'] = {};
+    for (const keyword in answers) {
+      const answer = answers[keyword]!;
+      if (wanted(keyword, answer)) {
+        exported[keyword] = answer;
+      }
+    }
+
+    // Leave out nifs we have nothing to say about
+    if (
+      Object.keys(exported).length > 0 ||
+      constraints.some(({ hashes: h }) => h.includes(hash))
+    ) {
+      nifs[hash] = { filenames: [...filenames], keywords: exported };
+    }
+  });
+
+  return { nifs, constraints };
+}
+
+/**
+ * A remembered answer about a nif, as shown in the memory browser.
+ */
+export interface MemoryRow {
+  hash: string;
+  filenames: readonly string[];
+  keyword: string;
+  answer: Answer;
+}
+
+/**
+ * What to show in the memory browser.
+ */
+export interface MemoryFilter {
+  /**
+   * Only show answers about this keyword (all if empty)
+   */
+  keyword: string;
+  /**
+   * Only show this answer (all if empty)
+   */
+  answer: Answer | null;
+  /**
+   * Only show nifs with a filename containing this (case insensitive)
+   */
+  path: string;
+}
+
+/**
+ * List every answer in memories (sorted by filename).
+ */
+export function memoryRows(memories: Memories): MemoryRow[] {
+  return Object.entries(memories.nifs)
+    .flatMap(([hash, memory]) =>
+      Object.entries(memory?.keywords ?? {}).map(([keyword, answer]) => ({
+        hash,
+        filenames: memory?.filenames ?? [],
+        keyword,
+        answer: answer!,
+      }))
+    )
+    .sort((a, b) =>
+      (a.filenames[0] ?? a.hash).localeCompare(b.filenames[0] ?? b.hash)
+    );
+}
+
+/**
+ * Check if the memory browser should show an answer.
+ */
+export function matchesMemoryFilter(
+  { filenames, keyword, answer }: MemoryRow,
+  filter: MemoryFilter
+): boolean {
+  const path = filter.path.toLowerCase();
+  return (
+    (!filter.keyword || keyword === filter.keyword) &&
+    (!filter.answer || answer === filter.answer) &&
+    (!path || filenames.some((nif) => nif.toLowerCase().includes(path)))
+  );
+}
+
+/**
+ * Find remembered nifs which are no longer in the Data folder
+ * under any of their filenames.
+ *
+ * Nifs we never saw a filename for are kept.
+ */
+export function findStaleNifs(
+  memories: Memories,
+  dir: string,
+  archives: readonly BSA[]
+): string[] {
+  return Object.entries(memories.nifs)
+    .filter(
+      ([, memory]) =>
+        memory &&
+        memory.filenames.length > 0 &&
+        !memory.filenames.some((nif) => {
+          try {
+            locateDataFile(dir, archives, nif);
+            return true;
+          } catch (err) {
+            return false;
+          }
+        })
+    )
+    .map(([hash]) => hash);
+}
+
+/**
+ * Forget everything about some nifs,
+ * including pending constraints involving them.
+ */
+export function forgetNifs(
+  memories: Memories,
+  hashes: readonly string[]
+): void {
+  hashes.forEach((hash) => {
+    delete memories.nifs[hash];
+  });
+  memories.constraints = memories.constraints.filter(
+    (constraint) => !constraint.hashes.some((hash) => hashes.includes(hash))
+  );
+}
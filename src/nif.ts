@@ -0,0 +1,545 @@
+/**
+ * Reading the geometry and body partitions of nifs.
+ *
+ * @packageDocumentation
+ */
+
+import { BodySlot, Model } from './keywords';
+import { Choice } from './memory';
+
+/**
+ * NIF file version used by both Skyrim LE and SSE (20.2.0.7)
+ *
+ * @see readNif
+ */
+export const NIF_VERSION = 0x14020007;
+
+/**
+ * Bethesda stream version of Skyrim LE nifs
+ *
+ * @see readNif
+ */
+export const NIF_BSVER_LE = 83;
+
+/**
+ * Bethesda stream version of Skyrim SSE nifs
+ *
+ * @see readNif
+ */
+export const NIF_BSVER_SSE = 100;
+
+/**
+ * SSE vertex attribute flag for having positions
+ */
+export const NIF_VA_VERTEX = 0x1;
+
+/**
+ * SSE vertex attribute flag for full precision (rather than half) floats
+ */
+export const NIF_VA_FULLPREC = 0x400;
+
+/**
+ * Part of a skinned shape belonging to one body part.
+ *
+ * @see NifShape
+ */
+export interface NifPartition {
+  /**
+   * Body part number (e.g., 32 for the body)
+   */
+  bodyPart: number;
+  /**
+   * Body slot of the part, if it is one
+   */
+  slot?: BodySlot;
+  /**
+   * Indices of the shape's vertices in this partition
+   */
+  vertices: number[];
+}
+
+/**
+ * A shape (i.e., piece of geometry) from a nif.
+ */
+export interface NifShape {
+  name: string;
+  /**
+   * Block type (e.g., NiTriShape or BSTriShape)
+   */
+  type: string;
+  /**
+   * Vertex positions (transformed by the shape's own transform)
+   */
+  vertices: [number, number, number][];
+  /**
+   * Names of the bones the shape is skinned to
+   */
+  bones: string[];
+  /**
+   * Dismember partitions (empty if the shape has none)
+   */
+  partitions: NifPartition[];
+}
+
+/**
+ * What we care about in a nif.
+ *
+ * @see readNif
+ */
+export interface Nif {
+  /**
+   * Bethesda stream version
+   */
+  bsVersion: typeof NIF_BSVER_LE | typeof NIF_BSVER_SSE;
+  shapes: NifShape[];
+}
+
+/**
+ * Block types of shapes we can read.
+ */
+export const nifShapeTypes: readonly string[] = [
+  'NiTriShape',
+  'NiTriStrips',
+  'BSTriShape',
+  'BSSubIndexTriShape',
+  'BSDynamicTriShape',
+  'BSMeshLODTriShape',
+];
+
+/**
+ * Read the shapes, their skinning, and their partitions from a nif.
+ *
+ * Supports Skyrim LE and SSE nifs.
+ *
+ * @throws if data is not a supported nif
+ */
+export function readNif(data: Buffer): Nif {
+  let pos = 0;
+  const u8 = () => data.readUInt8((pos += 1) - 1);
+  const u16 = () => data.readUInt16LE((pos += 2) - 2);
+  const u32 = () => data.readUInt32LE((pos += 4) - 4);
+  const i32 = () => data.readInt32LE((pos += 4) - 4);
+  const f32 = () => data.readFloatLE((pos += 4) - 4);
+  const f16 = () => {
+    const half = u16();
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) {
+      return sign * 2 ** -14 * (mantissa / 1024);
+    }
+    if (exponent === 0x1f) {
+      return mantissa ? NaN : sign * Infinity;
+    }
+    return sign * 2 ** (exponent - 15) * (1 + mantissa / 1024);
+  };
+  const skip = (bytes: number) => {
+    pos += bytes;
+  };
+  const sizedString = () =>
+    data.toString('latin1', pos + 4, (pos += 4 + u32()));
+  const exportString = () =>
+    data.toString('latin1', pos + 1, (pos += 1 + u8()));
+
+  // Header
+  const newline = data.indexOf(0x0a);
+  const magic = data.toString('latin1', 0, newline);
+  if (!magic.startsWith('Gamebryo File Format')) {
+    throw new Error('Not a nif');
+  }
+  pos = newline + 1;
+  const version = u32();
+  skip(1); // Endianness
+  const userVersion = u32();
+  const numBlocks = u32();
+  const bsVersion = u32();
+  if (
+    version !== NIF_VERSION ||
+    userVersion !== 12 ||
+    (bsVersion !== NIF_BSVER_LE && bsVersion !== NIF_BSVER_SSE)
+  ) {
+    throw new Error(`Unsupported nif version: ${magic} (${bsVersion})`);
+  }
+  exportString(); // Author
+  exportString(); // Process script
+  exportString(); // Export script
+  const types: string[] = [];
+  for (let i = u16(); i > 0; i--) {
+    types.push(sizedString());
+  }
+  const blockTypes: string[] = [];
+  for (let i = 0; i < numBlocks; i++) {
+    blockTypes.push(types[u16() & 0x7fff]);
+  }
+  const blockOffsets: number[] = [];
+  let offset = 0;
+  for (let i = 0; i < numBlocks; i++) {
+    blockOffsets.push(offset);
+    offset += u32();
+  }
+  const numStrings = u32();
+  skip(4); // Max string length
+  const strings: string[] = [];
+  for (let i = 0; i < numStrings; i++) {
+    strings.push(sizedString());
+  }
+  skip(u32() * 4); // Groups
+  const blocksStart = pos;
+  blockOffsets.forEach((_, i) => (blockOffsets[i] += blocksStart));
+
+  /**
+   * Go to the start of a block, checking its type.
+   */
+  function seek(ref: number, ...expected: string[]): boolean {
+    if (ref < 0 || ref >= numBlocks || !expected.includes(blockTypes[ref])) {
+      return false;
+    }
+    pos = blockOffsets[ref];
+    return true;
+  }
+  /**
+   * Read a string index.
+   */
+  function string(): string {
+    const index = i32();
+    return index < 0 ? '' : strings[index] ?? '';
+  }
+  /**
+   * Read the SSE vertex format and positions.
+   */
+  function vertexData(count: number, lo: number, hi: number) {
+    const size = (lo & 0xf) * 4;
+    const attributes = (hi >>> 12) & 0xfff;
+    const vertices: [number, number, number][] = [];
+    if (!(attributes & NIF_VA_VERTEX)) {
+      skip(count * size);
+      return vertices;
+    }
+    for (let i = 0; i < count; i++) {
+      const start = pos;
+      vertices.push(
+        attributes & NIF_VA_FULLPREC
+          ? [f32(), f32(), f32()]
+          : [f16(), f16(), f16()]
+      );
+      pos = start + size;
+    }
+    return vertices;
+  }
+  /**
+   * Read the vertices of NiTriShapeData (or NiTriStripsData).
+   */
+  function geometryData(ref: number) {
+    const vertices: [number, number, number][] = [];
+    if (seek(ref, 'NiTriShapeData', 'NiTriStripsData')) {
+      skip(4); // Group ID
+      const count = u16();
+      skip(2); // Keep and compress flags
+      if (u8()) {
+        for (let i = 0; i < count; i++) {
+          vertices.push([f32(), f32(), f32()]);
+        }
+      }
+    }
+    return vertices;
+  }
+  /**
+   * Read the vertex maps (and SSE vertices) of NiSkinPartition.
+   */
+  function skinPartition(ref: number) {
+    const maps: number[][] = [];
+    let vertices: [number, number, number][] = [];
+    if (!seek(ref, 'NiSkinPartition')) {
+      return { maps, vertices };
+    }
+    const count = u32();
+    if (bsVersion === NIF_BSVER_SSE) {
+      const dataSize = u32();
+      const vertexSize = u32();
+      const lo = u32();
+      const hi = u32();
+      if (dataSize > 0) {
+        vertices = vertexData(dataSize / vertexSize, lo, hi);
+      }
+    }
+    for (let p = 0; p < count; p++) {
+      const numVertices = u16();
+      const numTriangles = u16();
+      const numBones = u16();
+      const numStrips = u16();
+      const numWeights = u16();
+      skip(numBones * 2);
+      const map: number[] = [];
+      if (u8()) {
+        for (let i = 0; i < numVertices; i++) {
+          map.push(u16());
+        }
+      }
+      maps.push(map);
+      if (u8()) {
+        skip(numVertices * numWeights * 4); // Weights
+      }
+      const stripLengths: number[] = [];
+      for (let i = 0; i < numStrips; i++) {
+        stripLengths.push(u16());
+      }
+      if (u8()) {
+        skip(
+          numStrips > 0
+            ? stripLengths.reduce((a, b) => a + b, 0) * 2
+            : numTriangles * 6
+        );
+      }
+      if (u8()) {
+        skip(numVertices * numWeights); // Bone indices
+      }
+      if (bsVersion === NIF_BSVER_SSE) {
+        skip(2); // LOD level and global VB
+        skip(8); // Vertex desc
+        skip(numTriangles * 6); // Triangles copy
+      }
+    }
+    return { maps, vertices };
+  }
+  /**
+   * Read NiSkinInstance (or BSDismemberSkinInstance).
+   */
+  function skinInstance(ref: number) {
+    const bones: string[] = [];
+    const bodyParts: number[] = [];
+    let partition = -1;
+    if (seek(ref, 'NiSkinInstance', 'BSDismemberSkinInstance')) {
+      skip(4); // Data
+      partition = i32();
+      skip(4); // Skeleton root
+      const boneRefs: number[] = [];
+      for (let i = u32(); i > 0; i--) {
+        boneRefs.push(i32());
+      }
+      if (blockTypes[ref] === 'BSDismemberSkinInstance') {
+        for (let i = u32(); i > 0; i--) {
+          skip(2); // Part flag
+          bodyParts.push(u16());
+        }
+      }
+      // Every bone is a node, so its name comes first
+      boneRefs.forEach((bone) => {
+        if (bone >= 0 && bone < numBlocks) {
+          pos = blockOffsets[bone];
+          bones.push(string());
+        }
+      });
+    }
+    return { bones, bodyParts, partition };
+  }
+
+  const shapes: NifShape[] = [];
+  blockTypes.forEach((type, i) => {
+    if (!nifShapeTypes.includes(type)) {
+      return;
+    }
+    seek(i, type);
+
+    // NiObjectNET
+    const name = string();
+    skip(u32() * 4); // Extra data
+    skip(4); // Controller
+    // NiAVObject
+    skip(4); // Flags
+    const translation = [f32(), f32(), f32()];
+    const rotation = Array.from({ length: 9 }, f32);
+    const scale = f32();
+    skip(4); // Collision object
+
+    let vertices: [number, number, number][] = [];
+    let skin: number;
+    if (type.startsWith('Ni')) {
+      const geometry = i32();
+      skin = i32();
+      vertices = geometryData(geometry);
+    } else {
+      skip(16); // Bounding sphere
+      skin = i32();
+      skip(8); // Shader and alpha properties
+      const lo = u32();
+      const hi = u32();
+      skip(2); // Triangle count
+      const count = u16();
+      if (u32() > 0) {
+        vertices = vertexData(count, lo, hi);
+      }
+    }
+
+    const { bones, bodyParts, partition } = skinInstance(skin);
+    const { maps, vertices: partitionVertices } = skinPartition(partition);
+    if (vertices.length === 0) {
+      // SSE skinned shapes keep their vertices in the skin partition
+      vertices = partitionVertices;
+    }
+
+    shapes.push({
+      name,
+      type,
+      vertices: vertices.map(([x, y, z]) => [
+        (rotation[0] * x + rotation[1] * y + rotation[2] * z) * scale +
+          translation[0],
+        (rotation[3] * x + rotation[4] * y + rotation[5] * z) * scale +
+          translation[1],
+        (rotation[6] * x + rotation[7] * y + rotation[8] * z) * scale +
+          translation[2],
+      ]),
+      bones,
+      partitions: bodyParts.map((bodyPart, p) => ({
+        bodyPart,
+        slot: (Object.values(BodySlot) as BodySlot[]).find((slot) =>
+          slot.startsWith(`${bodyPart} - `)
+        ),
+        // Without a vertex map, a lone partition is the whole shape
+        vertices:
+          maps[p]?.length > 0
+            ? maps[p]
+            : bodyParts.length === 1
+            ? vertices.map((_, v) => v)
+            : [],
+      })),
+    });
+  });
+
+  return { bsVersion, shapes };
+}
+
+/**
+ * Get the body slots a nif's partitions occupy.
+ */
+export function nifSlots({ shapes }: Nif): BodySlot[] {
+  return shapes
+    .flatMap(({ partitions }) => partitions)
+    .map(({ slot }) => slot)
+    .filter(
+      (slot, i, all): slot is BodySlot => !!slot && all.indexOf(slot) === i
+    );
+}
+
+/**
+ * Naked body nifs to measure armor coverage against.
+ *
+ * @see bodyCoverage
+ */
+export const referenceBodies: Record<keyof typeof Model, string> = {
+  Male: 'meshes\\actors\\character\\character assets\\malebody_1.nif',
+  Female: 'meshes\\actors\\character\\character assets\\femalebody_1.nif',
+};
+
+/**
+ * Distance (in nif units) within which armor covers a body vertex.
+ *
+ * @see bodyCoverage
+ */
+export const coverageRadius = 3;
+
+/**
+ * Measure how much of the body some armor nifs cover.
+ *
+ * Counts the body vertices (in the given slots' partitions)
+ * which have an armor vertex nearby.
+ *
+ * @returns Fraction (0 to 1) of the body covered,
+ *  or undefined if the body has none of the slots
+ */
+export function bodyCoverage(
+  body: Nif,
+  armors: readonly Nif[],
+  slots: readonly BodySlot[]
+): number | undefined {
+  const bodyVertices = body.shapes.flatMap(({ vertices, partitions }) =>
+    partitions
+      .filter(({ slot }) => slot && slots.includes(slot))
+      .flatMap((partition) => partition.vertices.map((v) => vertices[v]))
+  );
+  if (bodyVertices.length === 0) {
+    return undefined;
+  }
+
+  // Bucket armor vertices so we only compare nearby ones
+  const cell = ([x, y, z]: readonly number[]) =>
+    [x, y, z].map((c) => Math.floor(c / coverageRadius));
+  const grid = new Map<string, [number, number, number][]>();
+  armors
+    .flatMap(({ shapes }) => shapes)
+    .flatMap(({ vertices }) => vertices)
+    .forEach((vertex) => {
+      const key = cell(vertex).join();
+      const bucket = grid.get(key);
+      if (bucket) {
+        bucket.push(vertex);
+      } else {
+        grid.set(key, [vertex]);
+      }
+    });
+
+  const covered = bodyVertices.filter((vertex) => {
+    const [cx, cy, cz] = cell(vertex);
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (let z = cz - 1; z <= cz + 1; z++) {
+          const near = grid
+            .get([x, y, z].join())
+            ?.some(
+              (armor) =>
+                Math.hypot(
+                  armor[0] - vertex[0],
+                  armor[1] - vertex[1],
+                  armor[2] - vertex[2]
+                ) <= coverageRadius
+            );
+          if (near) {
+            return true;
+          }
+        }
+      }
+    }
+    return false;
+  });
+
+  return covered.length / bodyVertices.length;
+}
+
+/**
+ * Answer suggested from an armor's geometry.
+ *
+ * @see suggestAnswer
+ */
+export interface Suggestion {
+  choice: Choice.MaybeYes | Choice.MaybeNo;
+  /**
+   * Why it was suggested
+   */
+  reason: string;
+  /**
+   * How far (0 to 1) coverage is from the keyword's threshold
+   *
+   * Always 0 for suggestions from rules, so they are never auto-answered.
+   */
+  confidence: number;
+}
+
+/**
+ * Suggest whether a keyword applies based on body coverage.
+ *
+ * @see KeywordInfo.coverageThreshold
+ */
+export function suggestAnswer(threshold: number, coverage: number): Suggestion {
+  const reason = `${Math.round(coverage * 100)}% of body covered`;
+
+  return coverage < threshold
+    ? {
+        choice: Choice.MaybeYes,
+        reason,
+        confidence: (threshold - coverage) / threshold,
+      }
+    : {
+        choice: Choice.MaybeNo,
+        reason,
+        confidence: (coverage - threshold) / (1 - threshold || 1),
+      };
+}
@@ -0,0 +1,396 @@
+import { strict as assert } from 'assert';
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmdirSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+
+import {
+  BSA,
+  BSA_COMPRESSED,
+  BSA_COMPRESSION_TOGGLE,
+  BSA_EMBED_NAMES,
+  HashCache,
+  decompressLZ4,
+  extractDataFile,
+  hashDataFile,
+  locateDataFile,
+  readBSA,
+  readBSAFile,
+  readDataFile,
+} from '../src/data';
+
+/**
+ * A file as stored in a test BSA.
+ */
+interface StoredFile {
+  folder: string;
+  name: string;
+  /**
+   * Contents (compressed or not, as flagged)
+   */
+  data: Buffer;
+  /**
+   * Whether to flip the archive's compression for this file
+   */
+  toggle?: boolean;
+}
+
+/**
+ * Write a BSA with the given files, grouped by folder.
+ */
+function writeBSA(
+  filename: string,
+  version: 104 | 105,
+  flags: number,
+  files: readonly StoredFile[]
+): void {
+  const folders = [...new Set(files.map(({ folder }) => folder))];
+  const ordered = folders.flatMap((folder) =>
+    files.filter((file) => file.folder === folder)
+  );
+  const folderRecordSize = version === 104 ? 16 : 24;
+  const folderNames = folders.map((folder) =>
+    Buffer.from(`${folder}\0`, 'latin1')
+  );
+  const folderNamesLength = folderNames.reduce((a, b) => a + b.length, 0);
+  const fileNames = Buffer.from(
+    ordered.map(({ name }) => `${name}\0`).join(''),
+    'latin1'
+  );
+  const stored = ordered.map(({ folder, name, data }) => {
+    if (!(flags & BSA_EMBED_NAMES)) {
+      return data;
+    }
+    const path = Buffer.from(`${folder}\\${name}`, 'latin1');
+    return Buffer.concat([Buffer.from([path.length]), path, data]);
+  });
+
+  const header = Buffer.alloc(36);
+  header.write('BSA\0', 0, 'latin1');
+  header.writeUInt32LE(version, 4);
+  header.writeUInt32LE(36, 8);
+  header.writeUInt32LE(flags, 12);
+  header.writeUInt32LE(folders.length, 16);
+  header.writeUInt32LE(ordered.length, 20);
+  header.writeUInt32LE(folderNamesLength, 24);
+  header.writeUInt32LE(fileNames.length, 28);
+
+  const folderRecords = Buffer.alloc(folders.length * folderRecordSize);
+  folders.forEach((folder, i) =>
+    folderRecords.writeUInt32LE(
+      files.filter((file) => file.folder === folder).length,
+      i * folderRecordSize + 8
+    )
+  );
+
+  let offset =
+    header.length +
+    folderRecords.length +
+    folderNamesLength +
+    folders.length +
+    ordered.length * 16 +
+    fileNames.length;
+  const fileRecords = folders.map((folder, i) => {
+    const records = ordered
+      .map((file, j) => ({ ...file, size: stored[j].length }))
+      .filter((file) => file.folder === folder)
+      .map(({ size, toggle }) => {
+        const record = Buffer.alloc(16);
+        record.writeUInt32LE(
+          (size | (toggle ? BSA_COMPRESSION_TOGGLE : 0)) >>> 0,
+          8
+        );
+        record.writeUInt32LE(offset, 12);
+        offset += size;
+        return record;
+      });
+    return Buffer.concat([
+      Buffer.from([folderNames[i].length]),
+      folderNames[i],
+      ...records,
+    ]);
+  });
+
+  writeFileSync(
+    filename,
+    Buffer.concat([header, folderRecords, ...fileRecords, fileNames, ...stored])
+  );
+}
+
+/**
+ * Make an LZ4 frame from raw blocks.
+ *
+ * @param blocks Compressed blocks, or uncompressed ones if flagged
+ */
+function lz4Frame(
+  blocks: readonly (Buffer | { uncompressed: Buffer })[],
+  flg = 0x60
+): Buffer {
+  const contentSize = flg & 0x08 ? Buffer.alloc(8) : Buffer.alloc(0);
+  const checksum = flg & 0x10 ? Buffer.alloc(4, 0xff) : Buffer.alloc(0);
+  return Buffer.concat([
+    Buffer.from([0x04, 0x22, 0x4d, 0x18, flg, 0x40]),
+    contentSize,
+    Buffer.from([0]), // Header checksum (not checked)
+    ...blocks.flatMap((block) => {
+      const data = Buffer.isBuffer(block) ? block : block.uncompressed;
+      const size = Buffer.alloc(4);
+      size.writeUInt32LE(
+        (data.length | (Buffer.isBuffer(block) ? 0 : 0x80000000)) >>> 0
+      );
+      return [size, data, checksum];
+    }),
+    Buffer.alloc(4), // End mark
+  ]);
+}
+
+/**
+ * Prefix compressed data with its decompressed size, as BSAs do.
+ */
+function sized(original: Buffer, compressed: Buffer): Buffer {
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(original.length);
+  return Buffer.concat([size, compressed]);
+}
+
+describe('decompressLZ4', () => {
+  it('copies literals and overlapping matches', () => {
+    // 'abc', then 9 bytes from 3 back, then a final 'X'
+    const block = Buffer.from([0x35, 0x61, 0x62, 0x63, 3, 0, 0x10, 0x58]);
+
+    assert.equal(
+      decompressLZ4(lz4Frame([block]), 13).toString(),
+      'abcabcabcabcX'
+    );
+  });
+
+  it('reads long literal and match lengths', () => {
+    const literals = Buffer.from('0123456789'.repeat(30));
+    const block = Buffer.concat([
+      // 300 literals and a 300 byte match
+      Buffer.from([0xff, 255, 30]),
+      literals,
+      Buffer.from([10, 0, 255, 26]),
+    ]);
+
+    assert.equal(
+      decompressLZ4(lz4Frame([block]), 600).toString(),
+      literals.toString().repeat(2)
+    );
+  });
+
+  it('reads uncompressed blocks and matches into earlier blocks', () => {
+    const frame = lz4Frame(
+      [{ uncompressed: Buffer.from('hello ') }, Buffer.from([0x02, 6, 0])],
+      0x78
+    );
+
+    assert.equal(decompressLZ4(frame, 12).toString(), 'hello hello ');
+  });
+
+  it('rejects data which is not an LZ4 frame', () => {
+    assert.throws(() => decompressLZ4(Buffer.alloc(16), 16), /Invalid LZ4/);
+  });
+});
+
+describe('BSAs', () => {
+  const plain = Buffer.from('plain nif data');
+  const packed = Buffer.from('packed nif data, packed nif data');
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mechanicalturkeyz-test-'));
+  });
+
+  after(() => {
+    rmdirSync(dir, { recursive: true });
+  });
+
+  it('reads SSE archives', () => {
+    const filename = join(dir, 'sse.bsa');
+    writeBSA(filename, 105, BSA_COMPRESSED, [
+      {
+        folder: 'meshes\\armor',
+        name: 'plain.nif',
+        data: plain,
+        toggle: true,
+      },
+      {
+        folder: 'meshes\\armor',
+        name: 'packed.nif',
+        data: sized(packed, lz4Frame([{ uncompressed: packed }])),
+      },
+      {
+        folder: 'textures',
+        name: 'other.dds',
+        data: sized(plain, lz4Frame([{ uncompressed: plain }])),
+      },
+    ]);
+    const bsa = readBSA(filename);
+
+    assert.equal(bsa.version, 105);
+    assert.deepEqual(
+      [...bsa.files.keys()],
+      [
+        'meshes\\armor\\plain.nif',
+        'meshes\\armor\\packed.nif',
+        'textures\\other.dds',
+      ]
+    );
+    assert.equal(bsa.files.get('meshes\\armor\\plain.nif')?.compressed, false);
+    assert.deepEqual(readBSAFile(bsa, 'Meshes/Armor/Plain.nif'), plain);
+    assert.deepEqual(readBSAFile(bsa, 'meshes\\armor\\packed.nif'), packed);
+    assert.deepEqual(readBSAFile(bsa, 'textures\\other.dds'), plain);
+    assert.throws(
+      () => readBSAFile(bsa, 'meshes\\armor\\missing.nif'),
+      /not found/
+    );
+  });
+
+  it('reads LE archives with embedded names', () => {
+    const filename = join(dir, 'le.bsa');
+    writeBSA(filename, 104, BSA_EMBED_NAMES, [
+      { folder: 'meshes\\armor', name: 'plain.nif', data: plain },
+      {
+        folder: 'meshes\\armor',
+        name: 'packed.nif',
+        data: sized(packed, deflateSync(packed)),
+        toggle: true,
+      },
+    ]);
+    const bsa = readBSA(filename);
+
+    assert.equal(bsa.version, 104);
+    assert.deepEqual(readBSAFile(bsa, 'meshes\\armor\\plain.nif'), plain);
+    assert.deepEqual(readBSAFile(bsa, 'meshes\\armor\\packed.nif'), packed);
+  });
+
+  it('rejects unsupported files', () => {
+    const notBSA = join(dir, 'not.bsa');
+    writeFileSync(notBSA, Buffer.alloc(64));
+    assert.throws(() => readBSA(notBSA), /is not a BSA/);
+
+    const fallout = join(dir, 'fallout.bsa');
+    writeBSA(fallout, 104, 0, []);
+    const data = readFileSync(fallout);
+    data.writeUInt32LE(103, 4);
+    writeFileSync(fallout, data);
+    assert.throws(() => readBSA(fallout), /Unsupported BSA version 103/);
+  });
+});
+
+describe('Data folder', () => {
+  const loose = Buffer.from('loose nif data');
+  const archived = Buffer.from('archived nif data');
+  let dir: string;
+  let archives: BSA[];
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mechanicalturkeyz-test-'));
+    mkdirSync(join(dir, 'meshes', 'armor'), { recursive: true });
+    writeFileSync(join(dir, 'meshes', 'armor', 'both.nif'), loose);
+
+    writeBSA(join(dir, 'first.bsa'), 105, 0, [
+      { folder: 'meshes\\armor', name: 'both.nif', data: archived },
+      { folder: 'meshes\\armor', name: 'archived.nif', data: archived },
+    ]);
+    writeBSA(join(dir, 'second.bsa'), 105, 0, [
+      { folder: 'meshes\\armor', name: 'archived.nif', data: loose },
+    ]);
+    archives = [
+      readBSA(join(dir, 'first.bsa')),
+      readBSA(join(dir, 'second.bsa')),
+    ];
+    dir += '/';
+  });
+
+  after(() => {
+    rmdirSync(dir, { recursive: true });
+  });
+
+  it('prefers loose files, then the first archive', () => {
+    assert.equal(
+      locateDataFile(dir, archives, 'meshes/armor/both.nif'),
+      undefined
+    );
+    assert.equal(
+      locateDataFile(dir, archives, 'meshes\\armor\\archived.nif'),
+      archives[0]
+    );
+    assert.throws(
+      () => locateDataFile(dir, archives, 'meshes\\armor\\missing.nif'),
+      /not found loose or in any archive/
+    );
+
+    assert.deepEqual(
+      readDataFile(dir, archives, 'meshes/armor/both.nif'),
+      loose
+    );
+    assert.deepEqual(
+      readDataFile(dir, archives, 'meshes\\armor\\archived.nif'),
+      archived
+    );
+  });
+
+  it('hashes files, reusing cached hashes', async () => {
+    const sha1 = (data: Buffer) =>
+      createHash('sha1').update(data).digest('hex');
+    const cache: HashCache = {};
+
+    assert.equal(
+      await hashDataFile(dir, archives, 'meshes/armor/both.nif', cache),
+      sha1(loose)
+    );
+    assert.equal(
+      await hashDataFile(dir, archives, 'meshes\\armor\\archived.nif', cache),
+      sha1(archived)
+    );
+    assert.deepEqual(Object.keys(cache).length, 2);
+
+    // Unchanged files are not hashed again
+    for (const key in cache) {
+      cache[key].hash = 'cached';
+    }
+    assert.equal(
+      await hashDataFile(dir, archives, 'meshes/armor/both.nif', cache),
+      'cached'
+    );
+
+    // Changed files are
+    for (const key in cache) {
+      cache[key].size++;
+    }
+    assert.equal(
+      await hashDataFile(dir, archives, 'meshes\\armor\\archived.nif', cache),
+      sha1(archived)
+    );
+  });
+
+  it('extracts archived files for other programs', () => {
+    assert.equal(
+      extractDataFile(dir, archives, 'meshes/armor/both.nif'),
+      'meshes/armor/both.nif'
+    );
+
+    const extracted = extractDataFile(
+      dir,
+      archives,
+      'meshes\\armor\\archived.nif'
+    );
+    try {
+      assert.deepEqual(readFileSync(extracted), archived);
+    } finally {
+      unlinkSync(extracted);
+    }
+    assert.equal(existsSync(extracted), false);
+  });
+});
@@ -0,0 +1,241 @@
+import { strict as assert } from 'assert';
+import { appendFileSync, mkdtempSync, rmdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  appendEdits,
+  appendHistory,
+  appendHistoryLines,
+  applyMemoryEdits,
+  historyFile,
+  historySessions,
+  learnAnswers,
+  loadHistory,
+  undoAnswers,
+} from '../src/history';
+import { GenderRule, KeywordInfo, KeywordType } from '../src/keywords';
+import {
+  Answer,
+  Choice,
+  Memories,
+  ModelNifs,
+  Quantifier,
+  rememberAnswer,
+} from '../src/memory';
+
+const [a, b, c] = ['a', 'b', 'c'].map((digit) => digit.repeat(40));
+
+const keyword: KeywordInfo = {
+  id: 'K',
+  description: '',
+  type: KeywordType.Inclusive,
+  genders: GenderRule.Either,
+  relevantSlots: [],
+  irrelevantSlots: [],
+  skipSlots: [],
+};
+
+/**
+ * Answer about an ARMO with the given nifs, recording it in the history.
+ */
+function answer(
+  memories: Memories,
+  editorid: string,
+  hashes: string[],
+  choice: Choice,
+  session = 'session'
+): void {
+  const models: ModelNifs[] = [
+    {
+      model: 'Male',
+      nifs: [],
+      hashes,
+      relevantHashes: { K: hashes },
+      slots: {},
+    },
+  ];
+  const choices = { K: { Male: choice } };
+  const { changes } = learnAnswers(memories, [keyword], choices, models, false);
+  appendHistory(
+    session,
+    { editorid, plugin: 'Test.esp' },
+    choices,
+    models,
+    changes
+  );
+}
+
+/**
+ * Undo the last count answers, recording it in the history.
+ */
+function undoLast(memories: Memories, count: number): void {
+  const history = loadHistory().filter(({ undone }) => !undone);
+  appendHistoryLines([
+    undoAnswers(
+      memories,
+      loadHistory(),
+      history.slice(-count),
+      { K: keyword },
+      false
+    ),
+  ]);
+}
+
+describe('history', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mechanicalturkeyz-test-'));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    rmdirSync(dir, { recursive: true });
+  });
+
+  it('records answers and what they changed', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+    answer(memories, 'ArmorA', [a, b], Choice.Yes);
+    answer(memories, 'ArmorB', [c], Choice.MaybeNo, 'later');
+    const history = loadHistory();
+
+    assert.deepEqual(
+      history.map(({ index, editorid, session, choice }) => [
+        index,
+        editorid,
+        session,
+        choice,
+      ]),
+      [
+        [0, 'ArmorA', 'session', Choice.Yes],
+        [1, 'ArmorB', 'later', Choice.MaybeNo],
+      ]
+    );
+    assert.deepEqual(history[0].changes, {
+      answers: {},
+      added: memories.constraints,
+      removed: [],
+    });
+    assert.deepEqual(history[1].changes, {
+      answers: { [c]: { to: Answer.MaybeNo } },
+      added: [],
+      removed: [],
+    });
+    assert.deepEqual(historySessions(history), [
+      { session: 'session', count: 1 },
+      { session: 'later', count: 1 },
+    ]);
+  });
+
+  it('ignores lines which can not be read', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+    answer(memories, 'ArmorA', [a], Choice.Yes);
+    appendFileSync(historyFile, '{"time": "cut off\n[]\n');
+    answer(memories, 'ArmorB', [b], Choice.Yes);
+
+    assert.deepEqual(
+      loadHistory().map(({ index, editorid }) => [index, editorid]),
+      [
+        [0, 'ArmorA'],
+        [1, 'ArmorB'],
+      ]
+    );
+  });
+
+  it('undoes answers', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+    answer(memories, 'ArmorA', [a], Choice.Yes);
+    answer(memories, 'ArmorB', [b, c], Choice.No);
+    answer(memories, 'ArmorC', [a, b], Choice.MaybeYes);
+    assert.equal(memories.nifs[a]?.keywords.K, Answer.MaybeYes);
+    undoLast(memories, 2);
+
+    assert.deepEqual(
+      [a, b, c].map((hash) => memories.nifs[hash]?.keywords.K),
+      [Answer.Yes, undefined, undefined]
+    );
+    assert.deepEqual(memories.constraints, []);
+    assert.deepEqual(
+      loadHistory().map(({ undone }) => !!undone),
+      [false, true, true]
+    );
+    assert.deepEqual(historySessions(loadHistory()), [
+      { session: 'session', count: 1 },
+    ]);
+  });
+
+  it('learns later answers again without the undone ones', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+    answer(memories, 'ArmorA', [a, b], Choice.Yes);
+    answer(memories, 'ArmorB', [a], Choice.No);
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.Yes);
+
+    // ArmorB's answer no longer tells us anything about b
+    const history = loadHistory();
+    const record = undoAnswers(
+      memories,
+      history,
+      [history[0]],
+      { K: keyword },
+      false
+    );
+    appendHistoryLines([record]);
+
+    assert.equal(memories.nifs[a]?.keywords.K, Answer.No);
+    assert.equal(memories.nifs[b]?.keywords.K, undefined);
+    assert.deepEqual(memories.constraints, []);
+    assert.deepEqual(record.entries, [0]);
+    assert.deepEqual(loadHistory()[1].changes, {
+      answers: { [a]: { to: Answer.No } },
+      added: [],
+      removed: [],
+    });
+  });
+
+  it('keeps answers changed since', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+    answer(memories, 'ArmorA', [a, b], Choice.No);
+    rememberAnswer(memories, 'K', a, Answer.Yes);
+    undoLast(memories, 1);
+
+    assert.equal(memories.nifs[a]?.keywords.K, Answer.Yes);
+    assert.equal(memories.nifs[b]?.keywords.K, undefined);
+  });
+
+  it('undoes edits in the memory browser', () => {
+    const memories: Memories = {
+      nifs: {
+        [a]: { filenames: ['a.nif'], keywords: { K: Answer.Yes } },
+        [b]: { filenames: ['b.nif'], keywords: { K: Answer.No } },
+      },
+      constraints: [
+        {
+          keyword: 'K',
+          quantifier: Quantifier.Some,
+          answer: Answer.No,
+          hashes: [b, c],
+        },
+      ],
+    };
+    const before: Memories = JSON.parse(JSON.stringify(memories));
+    appendEdits(
+      'browser',
+      applyMemoryEdits(memories, {
+        answers: { [a]: { K: Answer.MaybeNo } },
+        forget: [b],
+      })
+    );
+    assert.deepEqual(Object.keys(memories.nifs), [a]);
+    assert.equal(memories.nifs[a]?.keywords.K, Answer.MaybeNo);
+    assert.deepEqual(memories.constraints, []);
+
+    undoLast(memories, 1);
+
+    assert.deepEqual(memories.nifs[a], before.nifs[a]);
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.No);
+    assert.deepEqual(memories.constraints, before.constraints);
+  });
+});
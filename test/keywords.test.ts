@@ -0,0 +1,308 @@
+import { strict as assert } from 'assert';
+import { mkdtempSync, rmdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  BodySlot,
+  GenderRule,
+  KeywordType,
+  RuleAction,
+  RuleSubject,
+  builtinKeywords,
+  describeRule,
+  loadKeywordFiles,
+  matchesRule,
+  parseBodySlot,
+  parseKeywordDefinition,
+  parseKeywordRules,
+} from '../src/keywords';
+
+describe('parseBodySlot', () => {
+  it('accepts slots by number or name', () => {
+    assert.equal(parseBodySlot(32, 'slot'), BodySlot.Body);
+    assert.equal(parseBodySlot('32 - Body', 'slot'), BodySlot.Body);
+    assert.equal(parseBodySlot(49, 'slot'), BodySlot.PelvisPrimary);
+  });
+
+  it('rejects unknown slots', () => {
+    assert.throws(
+      () => parseBodySlot(29, 'def.relevantSlots[0]'),
+      /^Error: def\.relevantSlots\[0\]: unknown body slot 29$/
+    );
+    assert.throws(
+      () => parseBodySlot('Body', 'slot'),
+      /^Error: slot: unknown body slot "Body"$/
+    );
+    assert.throws(() => parseBodySlot(null, 'slot'), /unknown body slot null/);
+  });
+});
+
+describe('parseKeywordRules', () => {
+  it('compiles patterns and actions', () => {
+    const [rule] = parseKeywordRules(
+      [{ editorid: '^Skimpy', name: '', plugin: 'Mine.esp', action: 'Skip' }],
+      'rules'
+    );
+
+    assert.deepEqual(rule, {
+      editorid: /^Skimpy/i,
+      name: undefined,
+      plugin: 'Mine.esp',
+      keywords: undefined,
+      action: RuleAction.Skip,
+    });
+    assert.equal(
+      describeRule(rule),
+      'EditorID matches /^Skimpy/i, from Mine.esp'
+    );
+  });
+
+  it('rejects invalid rules', () => {
+    assert.throws(
+      () => parseKeywordRules({}, 'rules'),
+      /^Error: rules: must be an array of rules$/
+    );
+    assert.throws(
+      () => parseKeywordRules([{ editorid: '(', action: 'Skip' }], 'rules'),
+      /^Error: rules\[0\]\.editorid: Invalid regular expression/
+    );
+    assert.throws(
+      () =>
+        parseKeywordRules([{ plugin: 'Mine.esp', action: 'Maybe' }], 'rules'),
+      /^Error: rules\[0\]\.action: must be one of Apply, Skip, /
+    );
+    assert.throws(
+      () =>
+        parseKeywordRules(
+          [{ keywords: 'ArmorCuirass', action: 'Skip' }],
+          'rules'
+        ),
+      /^Error: rules\[0\]\.keywords: must be an array of strings$/
+    );
+  });
+
+  it('rejects rules which would match every armor', () => {
+    for (const rule of [
+      { action: 'Skip' },
+      { editorid: '', name: '', plugin: '', keywords: [], action: 'Apply' },
+    ]) {
+      assert.throws(
+        () => parseKeywordRules([rule], 'rules'),
+        /^Error: rules\[0\]: needs at least one condition$/
+      );
+    }
+  });
+});
+
+describe('matchesRule', () => {
+  const armor: RuleSubject = {
+    editorid: 'SkimpyArmorCuirass',
+    name: 'Skimpy Cuirass',
+    plugin: 'Mine.esp',
+    hasKeyword: (keyword) => keyword === 'ArmorCuirass',
+  };
+  const matches = (rule: object) =>
+    matchesRule(
+      parseKeywordRules([{ action: 'Skip', ...rule }], 'rules')[0],
+      armor
+    );
+
+  it('checks every condition given', () => {
+    assert.equal(matches({ editorid: 'skimpy' }), true);
+    assert.equal(matches({ name: 'cuirass$', plugin: 'mine.ESP' }), true);
+    assert.equal(matches({ keywords: ['ArmorCuirass'] }), true);
+    assert.equal(
+      matches({ editorid: 'Skimpy', keywords: ['ArmorCuirass', 'ArmorHeavy'] }),
+      false
+    );
+    assert.equal(matches({ editorid: 'Skimpy', plugin: 'Other.esp' }), false);
+    assert.equal(matches({ name: '^Cuirass' }), false);
+  });
+});
+
+describe('parseKeywordDefinition', () => {
+  it('fills in defaults', () => {
+    assert.deepEqual(
+      parseKeywordDefinition(
+        {
+          id: 'MyKeyword',
+          type: 'Exclusive',
+          relevantSlots: [32, '49 - Unnamed'],
+        },
+        'def'
+      ),
+      {
+        id: 'MyKeyword',
+        description: 'MyKeyword',
+        type: KeywordType.Exclusive,
+        genders: GenderRule.Either,
+        relevantSlots: [BodySlot.Body, BodySlot.PelvisPrimary],
+        irrelevantSlots: [],
+        skipSlots: [],
+        rules: [],
+        primarySlot: undefined,
+        slotWeights: undefined,
+        coverageThreshold: undefined,
+      }
+    );
+  });
+
+  it('reads every field', () => {
+    const info = parseKeywordDefinition(
+      {
+        id: 'MyKeyword',
+        description: 'My keyword',
+        type: 'Weighted',
+        genders: 'Female',
+        relevantSlots: [32],
+        irrelevantSlots: ['30 - Head'],
+        skipSlots: [52],
+        slotWeights: { '32': 2, '49 - Unnamed': 1 },
+        coverageThreshold: 0.5,
+      },
+      'def'
+    );
+
+    assert.equal(info.description, 'My keyword');
+    assert.equal(info.type, KeywordType.Weighted);
+    assert.equal(info.genders, GenderRule.Female);
+    assert.deepEqual(info.irrelevantSlots, [BodySlot.Head]);
+    assert.deepEqual(info.skipSlots, [BodySlot.PelvisSecondary]);
+    assert.deepEqual(info.slotWeights, {
+      [BodySlot.Body]: 2,
+      [BodySlot.PelvisPrimary]: 1,
+    });
+    assert.equal(info.coverageThreshold, 0.5);
+  });
+
+  it('rejects invalid definitions', () => {
+    const def = { id: 'MyKeyword', type: 'Inclusive', relevantSlots: [32] };
+
+    assert.throws(
+      () => parseKeywordDefinition([def], 'def'),
+      /^Error: def: keyword definition must be an object$/
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, id: '' }, 'def'),
+      /^Error: def\.id: must be a non-empty string$/
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, type: 'Sometimes' }, 'def'),
+      /^Error: def\.type: must be one of Inclusive, Exclusive, /
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, genders: 'Any' }, 'def'),
+      /^Error: def\.genders: must be one of /
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, relevantSlots: 32 }, 'def'),
+      /^Error: def\.relevantSlots: must be an array of body slots$/
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, skipSlots: [52, 99] }, 'def'),
+      /^Error: def\.skipSlots\[1\]: unknown body slot 99$/
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, type: 'PrimarySlot' }, 'def'),
+      /^Error: def\.primarySlot: required for PrimarySlot keywords$/
+    );
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, type: 'Weighted' }, 'def'),
+      /^Error: def\.slotWeights: required for Weighted keywords$/
+    );
+    assert.throws(
+      () =>
+        parseKeywordDefinition({ ...def, slotWeights: { '32': -1 } }, 'def'),
+      /^Error: def\.slotWeights\.32: must be a number >= 0$/
+    );
+    for (const slotWeights of [{}, { '32': 0, '33': 0 }]) {
+      assert.throws(
+        () =>
+          parseKeywordDefinition(
+            { ...def, type: 'Weighted', slotWeights },
+            'def'
+          ),
+        /^Error: def\.slotWeights: needs a positive weight for Weighted keywords$/
+      );
+    }
+    assert.throws(
+      () => parseKeywordDefinition({ ...def, coverageThreshold: 2 }, 'def'),
+      /^Error: def\.coverageThreshold: must be a number from 0 to 1$/
+    );
+  });
+});
+
+describe('loadKeywordFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mechanicalturkeyz-test-'));
+  });
+
+  afterEach(() => {
+    rmdirSync(dir, { recursive: true });
+  });
+
+  it('loads the built-in keywords without a folder', () => {
+    assert.deepEqual(loadKeywordFiles(join(dir, 'missing')), {
+      keywords: builtinKeywords,
+      errors: [],
+    });
+  });
+
+  it('adds user keywords and overrides built-in ones', () => {
+    writeFileSync(
+      join(dir, 'mine.json'),
+      JSON.stringify([
+        { id: 'MyKeyword', type: 'Inclusive', relevantSlots: [32] },
+        {
+          id: 'SOS_Revealing',
+          description: 'Mine',
+          type: 'Exclusive',
+          relevantSlots: [32],
+        },
+      ])
+    );
+    writeFileSync(
+      join(dir, 'single.JSON'),
+      JSON.stringify({ id: 'Single', type: 'Majority', relevantSlots: [] })
+    );
+    writeFileSync(join(dir, 'notes.txt'), 'not a definition');
+    const { keywords, errors } = loadKeywordFiles(dir);
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(
+      Object.keys(keywords).sort(),
+      [...Object.keys(builtinKeywords), 'MyKeyword', 'Single'].sort()
+    );
+    assert.equal(keywords.SOS_Revealing.description, 'Mine');
+    assert.equal(keywords.Single.type, KeywordType.Majority);
+  });
+
+  it('reports invalid files and definitions, and keeps the rest', () => {
+    writeFileSync(
+      join(dir, 'a.json'),
+      JSON.stringify([
+        { id: 'MyKeyword', type: 'Inclusive', relevantSlots: [32] },
+        { id: 'Broken', type: 'Inclusive', relevantSlots: [99] },
+      ])
+    );
+    writeFileSync(
+      join(dir, 'b.json'),
+      JSON.stringify({ id: 'MyKeyword', type: 'Exclusive', relevantSlots: [] })
+    );
+    writeFileSync(join(dir, 'c.json'), '{ "id": ');
+    const { keywords, errors } = loadKeywordFiles(dir);
+
+    assert.equal(keywords.MyKeyword.type, KeywordType.Inclusive);
+    assert.equal(keywords.Broken, undefined);
+    assert.equal(errors.length, 3);
+    assert.equal(errors[0], 'a.json[1].relevantSlots[0]: unknown body slot 99');
+    assert.equal(
+      errors[1],
+      'b.json: keyword MyKeyword already defined in a.json'
+    );
+    assert.ok(errors[2].startsWith('c.json: could not read JSON: '));
+  });
+});
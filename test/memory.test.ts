@@ -0,0 +1,948 @@
+import { strict as assert } from 'assert';
+import { mkdirSync, mkdtempSync, rmdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { BSA } from '../src/data';
+import {
+  BodySlot,
+  GenderRule,
+  KeywordInfo,
+  KeywordType,
+  Model,
+} from '../src/keywords';
+import {
+  Answer,
+  Choice,
+  Memories,
+  ModelNifs,
+  NifSlots,
+  Quantifier,
+  addConstraint,
+  carryAnswers,
+  combineGenders,
+  defaultExportOptions,
+  filterMemories,
+  findPreviousVersion,
+  findStaleNifs,
+  forgetNifs,
+  genderModels,
+  inferKeyword,
+  inferModels,
+  learnKeyword,
+  matchesMemoryFilter,
+  memoryRows,
+  memoryVersion,
+  mergeMemories,
+  migrateMemories,
+  questionKey,
+  relevantModels,
+  solveConstraints,
+  textureSeparator,
+  validateMemories,
+} from '../src/memory';
+
+const [a, b, c] = ['a', 'b', 'c'].map((digit) => digit.repeat(40));
+
+describe('solveConstraints', () => {
+  it('records "all" answers for every nif', () => {
+    const memories: Memories = {
+      nifs: {},
+      constraints: [
+        {
+          keyword: 'K',
+          quantifier: Quantifier.All,
+          answer: Answer.No,
+          hashes: [a, b],
+        },
+      ],
+    };
+    solveConstraints(memories);
+
+    assert.deepEqual(memories.nifs, {
+      [a]: { filenames: [], keywords: { K: Answer.No } },
+      [b]: { filenames: [], keywords: { K: Answer.No } },
+    });
+    assert.deepEqual(memories.constraints, []);
+  });
+
+  it('keeps "some" answers until only one nif is left', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+    addConstraint(memories, {
+      keyword: 'K',
+      quantifier: Quantifier.Some,
+      answer: Answer.Yes,
+      hashes: [a, b, c],
+    });
+    assert.equal(memories.constraints.length, 1);
+
+    addConstraint(memories, {
+      keyword: 'K',
+      quantifier: Quantifier.All,
+      answer: Answer.No,
+      hashes: [a],
+    });
+    assert.equal(memories.constraints.length, 1);
+
+    addConstraint(memories, {
+      keyword: 'K',
+      quantifier: Quantifier.All,
+      answer: Answer.No,
+      hashes: [b],
+    });
+    assert.equal(memories.nifs[c]?.keywords.K, Answer.Yes);
+    assert.deepEqual(memories.constraints, []);
+  });
+
+  it('deduces "maybe" answers from "maybe" answers', () => {
+    const memories: Memories = {
+      nifs: { [a]: { filenames: [], keywords: { K: Answer.MaybeYes } } },
+      constraints: [],
+    };
+    addConstraint(memories, {
+      keyword: 'K',
+      quantifier: Quantifier.Some,
+      answer: Answer.No,
+      hashes: [a, b],
+    });
+
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.MaybeNo);
+  });
+
+  it('drops "some" answers a nif already accounts for', () => {
+    const memories: Memories = {
+      nifs: { [a]: { filenames: [], keywords: { K: Answer.Yes } } },
+      constraints: [],
+    };
+    addConstraint(memories, {
+      keyword: 'K',
+      quantifier: Quantifier.Some,
+      answer: Answer.Yes,
+      hashes: [a, b, c],
+    });
+
+    assert.deepEqual(memories.constraints, []);
+    assert.equal(memories.nifs[b], undefined);
+  });
+
+  it('drops contradictory answers', () => {
+    const messages: string[] = [];
+    const memories: Memories = {
+      nifs: {
+        [a]: { filenames: [], keywords: { K: Answer.No } },
+        [b]: { filenames: [], keywords: { K: Answer.No } },
+      },
+      constraints: [],
+    };
+    addConstraint(
+      memories,
+      {
+        keyword: 'K',
+        quantifier: Quantifier.Some,
+        answer: Answer.Yes,
+        hashes: [a, b],
+      },
+      (message) => messages.push(message)
+    );
+
+    assert.deepEqual(memories.constraints, []);
+    assert.equal(memories.nifs[a]?.keywords.K, Answer.No);
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.No);
+    assert.equal(messages.length, 1);
+    assert.ok(messages[0].includes('contradictory'));
+  });
+
+  it('resolves constraints which depend on each other', () => {
+    const memories: Memories = {
+      nifs: {},
+      constraints: [
+        {
+          keyword: 'K',
+          quantifier: Quantifier.Some,
+          answer: Answer.No,
+          hashes: [b, c],
+        },
+        {
+          keyword: 'K',
+          quantifier: Quantifier.Some,
+          answer: Answer.Yes,
+          hashes: [c],
+        },
+      ],
+    };
+    solveConstraints(memories);
+
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.No);
+    assert.equal(memories.nifs[c]?.keywords.K, Answer.Yes);
+    assert.deepEqual(memories.constraints, []);
+  });
+});
+
+describe('validateMemories', () => {
+  it('accepts valid memories', () => {
+    const memories: Memories = {
+      nifs: {
+        [`${a}+${b}`]: {
+          filenames: ['meshes\\a.nif'],
+          keywords: { K: Answer.MaybeYes },
+          previous: [c],
+        },
+      },
+      constraints: [
+        {
+          keyword: 'K',
+          quantifier: Quantifier.All,
+          answer: Answer.No,
+          hashes: [a],
+        },
+      ],
+    };
+
+    assert.deepEqual(validateMemories(memories), memories);
+  });
+
+  it('rejects invalid memories', () => {
+    const nif = { filenames: [], keywords: {} };
+    const constraint = {
+      keyword: 'K',
+      quantifier: Quantifier.Some,
+      answer: Answer.Yes,
+      hashes: [],
+    };
+
+    assert.throws(() => validateMemories([]), /must be an object/);
+    assert.throws(
+      () => validateMemories({ nifs: { 'a.nif': nif }, constraints: [] }),
+      /^Error: nifs\.a\.nif: not a SHA1 hash/
+    );
+    assert.throws(
+      () =>
+        validateMemories({
+          nifs: { [a]: { ...nif, keywords: { K: 'Yes' } } },
+          constraints: [],
+        }),
+      /^Error: nifs\.a+\.keywords\.K: invalid answer "Yes"/
+    );
+    assert.throws(
+      () => validateMemories({ nifs: {}, constraints: {} }),
+      /^Error: constraints: must be an array/
+    );
+    assert.throws(
+      () =>
+        validateMemories({
+          nifs: {},
+          constraints: [{ ...constraint, quantifier: 'most' }],
+        }),
+      /^Error: constraints\[0\]\.quantifier: invalid quantifier most/
+    );
+  });
+});
+
+describe('migrateMemories', () => {
+  const nifs: Memories['nifs'] = {
+    [a]: { filenames: ['meshes\\a.nif'], keywords: { K: Answer.Yes } },
+  };
+
+  it('migrates unversioned files of only nifs', () => {
+    assert.deepEqual(migrateMemories(nifs), { nifs, constraints: [] });
+  });
+
+  it('migrates older files with constraints', () => {
+    const constraints = [
+      {
+        keyword: 'K',
+        quantifier: Quantifier.Some,
+        answer: Answer.No,
+        hashes: [a, b],
+      },
+    ];
+
+    assert.deepEqual(migrateMemories({ nifs, constraints }), {
+      nifs,
+      constraints,
+    });
+    assert.deepEqual(migrateMemories({ version: 1, nifs, constraints }), {
+      nifs,
+      constraints,
+    });
+  });
+
+  it('reads current files', () => {
+    assert.deepEqual(
+      migrateMemories({ version: memoryVersion, nifs, constraints: [] }),
+      { nifs, constraints: [] }
+    );
+  });
+
+  it('rejects files from newer versions', () => {
+    assert.throws(
+      () =>
+        migrateMemories({ version: memoryVersion + 1, nifs, constraints: [] }),
+      new RegExp(
+        `^Error: version ${
+          memoryVersion + 1
+        } is newer than supported version ${memoryVersion}$`
+      )
+    );
+  });
+
+  it('rejects invalid files after migrating them', () => {
+    assert.throws(() => migrateMemories([]), /must be an object/);
+    assert.throws(
+      () => migrateMemories({ 'a.nif': nifs[a] }),
+      /^Error: nifs\.a\.nif: not a SHA1 hash/
+    );
+  });
+});
+
+describe('mergeMemories', () => {
+  it('adds new nifs and answers, and resolves conflicts', () => {
+    const memories: Memories = {
+      nifs: {
+        [a]: { filenames: ['meshes\\a.nif'], keywords: { K: Answer.Yes } },
+        [b]: { filenames: ['meshes\\b.nif'], keywords: { K: Answer.No } },
+      },
+      constraints: [],
+    };
+    const theirs: Memories = {
+      nifs: {
+        [a]: {
+          filenames: ['meshes\\a2.nif'],
+          keywords: { K: Answer.No, L: Answer.Yes },
+        },
+        [b]: { filenames: ['meshes\\b.nif'], keywords: { K: Answer.Yes } },
+        [c]: { filenames: ['meshes\\c.nif'], keywords: { K: Answer.No } },
+      },
+      constraints: [],
+    };
+    const summary = mergeMemories(memories, theirs, ({ hash }) => hash === a);
+
+    assert.deepEqual(memories.nifs[a], {
+      filenames: ['meshes\\a.nif', 'meshes\\a2.nif'],
+      keywords: { K: Answer.No, L: Answer.Yes },
+    });
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.No);
+    assert.equal(memories.nifs[c]?.keywords.K, Answer.No);
+    assert.equal(summary.addedNifs, 1);
+    assert.equal(summary.addedAnswers, 2);
+    assert.deepEqual(
+      summary.changed.map(({ hash }) => hash),
+      [a]
+    );
+    assert.deepEqual(
+      summary.skipped.map(({ hash }) => hash),
+      [b]
+    );
+
+    // Theirs is left alone
+    assert.deepEqual(theirs.nifs[c]?.filenames, ['meshes\\c.nif']);
+    memories.nifs[c]!.filenames.push('meshes\\other.nif');
+    assert.deepEqual(theirs.nifs[c]?.filenames, ['meshes\\c.nif']);
+  });
+
+  it('adds their constraints once and solves them', () => {
+    const constraint = {
+      keyword: 'K',
+      quantifier: Quantifier.Some,
+      answer: Answer.Yes,
+      hashes: [a, b],
+    };
+    const memories: Memories = {
+      nifs: {},
+      constraints: [{ ...constraint, hashes: [...constraint.hashes] }],
+    };
+    mergeMemories(
+      memories,
+      {
+        nifs: { [a]: { filenames: [], keywords: { K: Answer.No } } },
+        constraints: [constraint],
+      },
+      () => false
+    );
+
+    assert.equal(memories.nifs[b]?.keywords.K, Answer.Yes);
+    assert.deepEqual(memories.constraints, []);
+  });
+});
+
+describe('filterMemories', () => {
+  const memories: Memories = {
+    nifs: {
+      [a]: {
+        filenames: ['meshes\\armor\\mymod\\a.nif'],
+        keywords: { K: Answer.Yes, L: Answer.MaybeNo },
+      },
+      [b]: {
+        filenames: ['Meshes/Armor/MyMod/Sub/b.nif'],
+        keywords: { L: Answer.No },
+      },
+      [c]: {
+        filenames: ['meshes\\armor\\other\\c.nif'],
+        keywords: { K: Answer.No },
+      },
+    },
+    constraints: [
+      {
+        keyword: 'K',
+        quantifier: Quantifier.Some,
+        answer: Answer.No,
+        hashes: [a, b],
+      },
+      {
+        keyword: 'K',
+        quantifier: Quantifier.Some,
+        answer: Answer.Yes,
+        hashes: [a, c],
+      },
+    ],
+  };
+
+  it('exports everything by default', () => {
+    assert.deepEqual(filterMemories(memories, defaultExportOptions), memories);
+  });
+
+  it('selects nifs by folder', () => {
+    const exported = filterMemories(memories, {
+      ...defaultExportOptions,
+      folders: 'armor\\MyMod\n\n  meshes/nothing/  ',
+    });
+
+    assert.deepEqual(Object.keys(exported.nifs), [a, b]);
+    assert.deepEqual(exported.constraints, [memories.constraints[0]]);
+  });
+
+  it('selects answers by keyword and certainty', () => {
+    const exported = filterMemories(memories, {
+      ...defaultExportOptions,
+      keywords: ['L'],
+      definiteOnly: true,
+    });
+
+    assert.deepEqual(exported, {
+      nifs: {
+        [b]: {
+          filenames: memories.nifs[b]!.filenames,
+          keywords: { L: Answer.No },
+        },
+      },
+      constraints: [],
+    });
+  });
+
+  it('selects nifs by plugin', () => {
+    const exported = filterMemories(
+      memories,
+      defaultExportOptions,
+      new Set(['meshes\\armor\\other\\c.nif'])
+    );
+
+    assert.deepEqual(Object.keys(exported.nifs), [c]);
+    assert.deepEqual(exported.constraints, []);
+  });
+});
+
+describe('memory browser', () => {
+  const memories: Memories = {
+    nifs: {
+      [a]: {
+        filenames: ['meshes\\Z.nif'],
+        keywords: { K: Answer.Yes, L: Answer.MaybeNo },
+      },
+      [b]: { filenames: ['meshes\\armor\\B.nif'], keywords: { K: Answer.No } },
+    },
+    constraints: [
+      {
+        keyword: 'K',
+        quantifier: Quantifier.Some,
+        answer: Answer.Yes,
+        hashes: [a, c],
+      },
+      {
+        keyword: 'K',
+        quantifier: Quantifier.Some,
+        answer: Answer.Yes,
+        hashes: [b, c],
+      },
+    ],
+  };
+  const rows = memoryRows(memories);
+
+  it('lists answers by filename', () => {
+    assert.deepEqual(
+      rows.map(({ hash, keyword, answer }) => [hash, keyword, answer]),
+      [
+        [b, 'K', Answer.No],
+        [a, 'K', Answer.Yes],
+        [a, 'L', Answer.MaybeNo],
+      ]
+    );
+  });
+
+  it('filters answers by keyword, answer and path', () => {
+    const filtered = (keyword: string, answer: Answer | null, path: string) =>
+      rows
+        .filter((row) => matchesMemoryFilter(row, { keyword, answer, path }))
+        .map(({ hash, keyword }) => [hash, keyword]);
+
+    assert.equal(filtered('', null, '').length, 3);
+    assert.deepEqual(filtered('K', null, ''), [
+      [b, 'K'],
+      [a, 'K'],
+    ]);
+    assert.deepEqual(filtered('', Answer.MaybeNo, ''), [[a, 'L']]);
+    assert.deepEqual(filtered('', null, 'ARMOR\\b'), [[b, 'K']]);
+    assert.deepEqual(filtered('L', Answer.Yes, ''), []);
+  });
+
+  it('forgets nifs and their constraints', () => {
+    const copy: Memories = JSON.parse(JSON.stringify(memories));
+    forgetNifs(copy, [a]);
+
+    assert.deepEqual(Object.keys(copy.nifs), [b]);
+    assert.deepEqual(copy.constraints, [memories.constraints[1]]);
+  });
+
+  it('finds nifs no longer in the Data folder', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'mechanicalturkeyz-test-'));
+    try {
+      mkdirSync(join(dir, 'meshes'));
+      writeFileSync(join(dir, 'meshes', 'loose.nif'), '');
+      const archive: BSA = {
+        filename: 'archive.bsa',
+        version: 105,
+        flags: 0,
+        files: new Map([
+          ['meshes\\archived.nif', { offset: 0, size: 0, compressed: false }],
+        ]),
+      };
+      const stale: Memories = {
+        nifs: {
+          [a]: {
+            filenames: ['meshes/gone.nif', 'meshes/loose.nif'],
+            keywords: {},
+          },
+          [b]: { filenames: ['meshes\\Archived.nif'], keywords: {} },
+          [c]: { filenames: ['meshes/gone.nif'], keywords: {} },
+          [`${a}+${c}`]: { filenames: [], keywords: {} },
+        },
+        constraints: [],
+      };
+
+      assert.deepEqual(findStaleNifs(stale, `${dir}/`, [archive]), [c]);
+      assert.deepEqual(findStaleNifs(stale, `${dir}/`, []), [b, c]);
+    } finally {
+      rmdirSync(dir, { recursive: true });
+    }
+  });
+});
+
+describe('learning', () => {
+  const info = (
+    type: KeywordType,
+    extra: Partial<KeywordInfo> = {}
+  ): KeywordInfo => ({
+    id: 'K',
+    description: '',
+    type,
+    genders: GenderRule.Either,
+    relevantSlots: [],
+    irrelevantSlots: [],
+    skipSlots: [],
+    ...extra,
+  });
+  const slots: NifSlots = {
+    [a]: [BodySlot.Body],
+    [b]: [BodySlot.Hands],
+    [c]: [BodySlot.Feet],
+  };
+  const known = (...answers: (Answer | undefined)[]): Memories => ({
+    nifs: Object.fromEntries(
+      [a, b, c]
+        .map((hash, i) => [hash, answers[i]] as const)
+        .filter(([, answer]) => answer !== undefined)
+        .map(([hash, answer]) => [
+          hash,
+          { filenames: [], keywords: { K: answer } },
+        ])
+    ),
+    constraints: [],
+  });
+  const infer = (memories: Memories, keyword: KeywordInfo) =>
+    inferKeyword(memories, keyword, [a, b, c], slots, false);
+  const learn = (memories: Memories, keyword: KeywordInfo, choice: Choice) =>
+    learnKeyword(memories, keyword, choice, [a, b, c], [a, b, c], slots, false);
+
+  describe('Majority', () => {
+    const majority = info(KeywordType.Majority);
+
+    it('infers from most of the nifs', () => {
+      assert.equal(infer(known(Answer.Yes, Answer.Yes), majority), true);
+      assert.equal(infer(known(Answer.No, Answer.No), majority), false);
+      assert.equal(infer(known(Answer.Yes, Answer.No), majority), undefined);
+      assert.equal(
+        infer(known(Answer.MaybeYes, undefined, Answer.Yes), majority),
+        true
+      );
+    });
+
+    it('learns which nifs must have the answer', () => {
+      const memories = known(Answer.No);
+      assert.equal(learn(memories, majority, Choice.Yes), true);
+
+      assert.equal(memories.nifs[b]?.keywords.K, Answer.Yes);
+      assert.equal(memories.nifs[c]?.keywords.K, Answer.Yes);
+      assert.deepEqual(memories.constraints, []);
+    });
+
+    it('remembers when any of the nifs could have the answer', () => {
+      const memories = known(Answer.Yes);
+      assert.equal(learn(memories, majority, Choice.MaybeYes), true);
+
+      assert.deepEqual(memories.constraints, [
+        {
+          keyword: 'K',
+          quantifier: Quantifier.Some,
+          answer: Answer.MaybeYes,
+          hashes: [b, c],
+        },
+      ]);
+    });
+
+    it('learns nothing new when the answer is already known', () => {
+      const memories = known(Answer.No, Answer.No);
+      assert.equal(learn(memories, majority, Choice.No), false);
+
+      assert.deepEqual(memories, known(Answer.No, Answer.No));
+    });
+  });
+
+  describe('Weighted', () => {
+    const weighted = info(KeywordType.Weighted, {
+      slotWeights: { [BodySlot.Body]: 3, [BodySlot.Hands]: 1 },
+    });
+
+    it('infers from the heaviest nifs', () => {
+      assert.equal(infer(known(Answer.Yes), weighted), true);
+      assert.equal(infer(known(Answer.No), weighted), false);
+      assert.equal(
+        infer(known(undefined, Answer.Yes, Answer.Yes), weighted),
+        undefined
+      );
+      assert.equal(
+        infer(known(undefined, Answer.No, Answer.No), weighted),
+        undefined
+      );
+    });
+
+    it('learns answers for the nifs which decide them', () => {
+      const yes = known();
+      assert.equal(learn(yes, weighted, Choice.Yes), true);
+      assert.deepEqual(yes, known(Answer.Yes));
+
+      const no = known();
+      assert.equal(learn(no, weighted, Choice.No), false);
+      assert.deepEqual(no, known(Answer.No));
+    });
+
+    it('ignores nifs which weigh nothing', () => {
+      const even = info(KeywordType.Weighted, {
+        slotWeights: { [BodySlot.Body]: 1, [BodySlot.Hands]: 1 },
+      });
+      const memories = known();
+      assert.equal(learn(memories, even, Choice.No), false);
+
+      assert.deepEqual(memories, {
+        nifs: {},
+        constraints: [
+          {
+            keyword: 'K',
+            quantifier: Quantifier.Some,
+            answer: Answer.No,
+            hashes: [a, b],
+          },
+        ],
+      });
+    });
+
+    it('learns nothing from answers which contradict what is known', () => {
+      const memories = known(Answer.No);
+      const messages: string[] = [];
+      assert.equal(
+        learnKeyword(
+          memories,
+          weighted,
+          Choice.Yes,
+          [a, b, c],
+          [a, b, c],
+          slots,
+          false,
+          (message) => messages.push(message)
+        ),
+        true
+      );
+
+      assert.deepEqual(memories, known(Answer.No));
+      assert.deepEqual(messages, [
+        `Dropping contradictory K answer about ${[a, b, c]}`,
+      ]);
+    });
+  });
+
+  describe('PrimarySlot', () => {
+    const primary = info(KeywordType.PrimarySlot, {
+      primarySlot: BodySlot.Body,
+    });
+
+    it('only looks at the nifs in the primary slot', () => {
+      assert.equal(infer(known(Answer.Yes, Answer.No), primary), true);
+
+      const memories = known();
+      assert.equal(learn(memories, primary, Choice.No), false);
+      assert.deepEqual(memories, known(Answer.No));
+    });
+
+    it('falls back to every nif without one in the primary slot', () => {
+      const memories = known();
+      assert.equal(
+        learnKeyword(
+          memories,
+          primary,
+          Choice.Yes,
+          [b, c],
+          [b, c],
+          slots,
+          false
+        ),
+        true
+      );
+      assert.deepEqual(memories, known(undefined, Answer.Yes, Answer.Yes));
+    });
+  });
+});
+
+describe('gender rules', () => {
+  const model = (name: keyof typeof Model): ModelNifs => ({
+    model: name,
+    nifs: [],
+    hashes: [],
+    relevantHashes: {},
+    slots: {},
+  });
+  const [male, female] = [model('Male'), model('Female')];
+  const rule = (genders: GenderRule): KeywordInfo => ({
+    id: 'K',
+    description: '',
+    type: KeywordType.Inclusive,
+    genders,
+    relevantSlots: [],
+    irrelevantSlots: [],
+    skipSlots: [],
+  });
+
+  it('decides with the models the rule wants', () => {
+    for (const genders of [GenderRule.Either, GenderRule.Both]) {
+      assert.deepEqual(genderModels(rule(genders), [male, female]), [
+        male,
+        female,
+      ]);
+    }
+    assert.deepEqual(genderModels(rule(GenderRule.Male), [male, female]), [
+      male,
+    ]);
+    assert.deepEqual(genderModels(rule(GenderRule.Female), [male, female]), [
+      female,
+    ]);
+  });
+
+  it('falls back to every model without the one the rule wants', () => {
+    assert.deepEqual(genderModels(rule(GenderRule.Female), [male]), [male]);
+    assert.deepEqual(genderModels(rule(GenderRule.Male), []), []);
+  });
+
+  it('applies Either keywords if any model has them', () => {
+    assert.equal(combineGenders(GenderRule.Either, [false, true]), true);
+    assert.equal(combineGenders(GenderRule.Either, [undefined, true]), true);
+    assert.equal(combineGenders(GenderRule.Either, [false, false]), false);
+    assert.equal(
+      combineGenders(GenderRule.Either, [false, undefined]),
+      undefined
+    );
+  });
+
+  it('applies Both keywords only if every model has them', () => {
+    assert.equal(combineGenders(GenderRule.Both, [true, true]), true);
+    assert.equal(combineGenders(GenderRule.Both, [true, false]), false);
+    assert.equal(combineGenders(GenderRule.Both, [undefined, false]), false);
+    assert.equal(combineGenders(GenderRule.Both, [true, undefined]), undefined);
+  });
+
+  it('applies Male and Female keywords from the one model', () => {
+    for (const genders of [GenderRule.Male, GenderRule.Female]) {
+      assert.equal(combineGenders(genders, [true]), true);
+      assert.equal(combineGenders(genders, [false]), false);
+      assert.equal(combineGenders(genders, [undefined]), undefined);
+    }
+  });
+});
+
+describe('previous versions', () => {
+  const d = 'd'.repeat(40);
+  const textures = 'e'.repeat(40);
+  const versions = (): Memories => ({
+    nifs: {
+      [b]: {
+        filenames: ['armor.nif'],
+        keywords: { K: Answer.No },
+        previous: [a],
+      },
+      [a]: { filenames: ['armor.nif'], keywords: { K: Answer.Yes } },
+      [c]: { filenames: ['armor.nif'], keywords: {} },
+      [`${a}${textureSeparator}${textures}`]: {
+        filenames: ['armor.nif', 'copy.nif'],
+        keywords: { K: Answer.MaybeYes },
+      },
+    },
+    constraints: [],
+  });
+
+  it('finds the latest version with answers', () => {
+    assert.equal(findPreviousVersion(versions(), d, 'armor.nif'), b);
+    assert.equal(findPreviousVersion(versions(), b, 'armor.nif'), a);
+    assert.equal(findPreviousVersion(versions(), d, 'other.nif'), undefined);
+  });
+
+  it('only finds versions with the same alternate textures', () => {
+    assert.equal(
+      findPreviousVersion(
+        versions(),
+        `${d}${textureSeparator}${textures}`,
+        'copy.nif'
+      ),
+      `${a}${textureSeparator}${textures}`
+    );
+    assert.equal(findPreviousVersion(versions(), d, 'copy.nif'), undefined);
+  });
+
+  it('carries answers over as maybes', () => {
+    const memories = versions();
+    carryAnswers(memories, b, d, true);
+
+    assert.deepEqual(memories.nifs[d], {
+      filenames: ['armor.nif'],
+      keywords: { K: Answer.MaybeNo },
+      previous: [b, a],
+    });
+  });
+
+  it('keeps the answers the new version already has', () => {
+    const memories = versions();
+    memories.nifs[d] = {
+      filenames: ['new.nif'],
+      keywords: { K: Answer.No, L: Answer.Yes },
+    };
+    memories.nifs[a]!.keywords.M = Answer.MaybeNo;
+    carryAnswers(memories, a, d, false);
+
+    assert.deepEqual(memories.nifs[d], {
+      filenames: ['new.nif', 'armor.nif'],
+      keywords: { K: Answer.No, L: Answer.Yes, M: Answer.MaybeNo },
+      previous: [a],
+    });
+  });
+});
+
+describe('questionKey', () => {
+  const models = (male: string[], female: string[]): ModelNifs[] =>
+    [
+      { model: 'Male' as const, hashes: male },
+      { model: 'Female' as const, hashes: female },
+    ].map(({ model, hashes }) => ({
+      model,
+      nifs: [],
+      hashes,
+      relevantHashes: { K: hashes, L: [] },
+      slots: {},
+    }));
+
+  it('ignores the order and repeats of nifs', () => {
+    assert.equal(
+      questionKey('K', models([a, b], [c]), ['Male', 'Female']),
+      questionKey('K', models([b, a, b], [c, c]), ['Male', 'Female'])
+    );
+  });
+
+  it('tells apart keywords, models and nifs', () => {
+    const key = questionKey('K', models([a, b], [c]), ['Male', 'Female']);
+
+    assert.notEqual(
+      questionKey('L', models([a, b], [c]), ['Male', 'Female']),
+      key
+    );
+    assert.notEqual(
+      questionKey('K', models([c], [a, b]), ['Male', 'Female']),
+      key
+    );
+    assert.notEqual(
+      questionKey('K', models([a], [c]), ['Male', 'Female']),
+      key
+    );
+  });
+
+  it('only includes the models asked about', () => {
+    assert.equal(
+      questionKey('K', models([a], [b]), ['Male']),
+      questionKey('K', models([a], [c]), ['Male'])
+    );
+    assert.notEqual(
+      questionKey('K', models([a], [b]), ['Male']),
+      questionKey('K', models([b], [a]), ['Female'])
+    );
+  });
+});
+
+describe('relevantModels', () => {
+  const exclusive: KeywordInfo = {
+    id: 'K',
+    description: '',
+    type: KeywordType.Exclusive,
+    genders: GenderRule.Either,
+    relevantSlots: [],
+    irrelevantSlots: [],
+    skipSlots: [],
+  };
+  const models = (male: string[], female: string[]): ModelNifs[] =>
+    [
+      { model: 'Male' as const, hashes: male },
+      { model: 'Female' as const, hashes: female },
+    ].map(({ model, hashes }) => ({
+      model,
+      nifs: [],
+      hashes: [a, b],
+      relevantHashes: { K: hashes },
+      slots: {},
+    }));
+
+  it('leaves out models without relevant nifs', () => {
+    assert.deepEqual(
+      relevantModels(exclusive, models([a], [])).map(({ model }) => model),
+      ['Male']
+    );
+    assert.deepEqual(relevantModels(exclusive, models([], [])), []);
+    assert.deepEqual(
+      relevantModels(
+        { ...exclusive, genders: GenderRule.Female },
+        models([a], [])
+      ),
+      []
+    );
+  });
+
+  it('does not apply exclusive keywords for models without relevant nifs', () => {
+    const memories: Memories = { nifs: {}, constraints: [] };
+
+    assert.deepEqual(inferModels(memories, exclusive, models([a], []), false), {
+      apply: undefined,
+      ask: ['Male'],
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { strict as assert } from 'assert';
+
+import { BodySlot } from '../src/keywords';
+import { Choice } from '../src/memory';
+import {
+  NIF_BSVER_LE,
+  NIF_BSVER_SSE,
+  NIF_VA_FULLPREC,
+  NIF_VA_VERTEX,
+  NIF_VERSION,
+  Nif,
+  NifPartition,
+  bodyCoverage,
+  nifSlots,
+  readNif,
+  suggestAnswer,
+} from '../src/nif';
+
+type WriteValue = (buffer: Buffer, value: number) => void;
+
+/**
+ * Builds little endian binary data.
+ */
+class Writer {
+  private parts: Buffer[] = [];
+
+  private write(size: number, values: readonly number[], fill: WriteValue) {
+    values.forEach((value) => {
+      const part = Buffer.alloc(size);
+      fill(part, value);
+      this.parts.push(part);
+    });
+    return this;
+  }
+
+  u8(...values: number[]) {
+    return this.write(1, values, (b, v) => b.writeUInt8(v));
+  }
+  u16(...values: number[]) {
+    return this.write(2, values, (b, v) => b.writeUInt16LE(v));
+  }
+  u32(...values: number[]) {
+    return this.write(4, values, (b, v) => b.writeUInt32LE(v));
+  }
+  i32(...values: number[]) {
+    return this.write(4, values, (b, v) => b.writeInt32LE(v));
+  }
+  f32(...values: number[]) {
+    return this.write(4, values, (b, v) => b.writeFloatLE(v));
+  }
+  string(value: string) {
+    this.u32(value.length);
+    this.parts.push(Buffer.from(value, 'latin1'));
+    return this;
+  }
+
+  get buffer(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
+
+/**
+ * Write a nif with the given string table and blocks.
+ */
+function writeNif(
+  bsVersion: number,
+  strings: readonly string[],
+  blocks: readonly { type: string; data: Writer }[],
+  version = NIF_VERSION
+): Buffer {
+  const types = [...new Set(blocks.map(({ type }) => type))];
+  const header = new Writer().u32(version).u8(1).u32(12, blocks.length);
+  header.u32(bsVersion).u8(0, 0, 0);
+  header.u16(types.length);
+  types.forEach((type) => header.string(type));
+  header.u16(...blocks.map(({ type }) => types.indexOf(type)));
+  const data = blocks.map((block) => block.data.buffer);
+  header.u32(...data.map((block) => block.length));
+  header.u32(strings.length, Math.max(0, ...strings.map((s) => s.length)));
+  strings.forEach((string) => header.string(string));
+  header.u32(0);
+
+  return Buffer.concat([
+    Buffer.from('Gamebryo File Format, Version 20.2.0.7\n', 'latin1'),
+    header.buffer,
+    ...data,
+  ]);
+}
+
+/**
+ * Write the start of a shape block (NiObjectNET and NiAVObject).
+ */
+function shape(name: number, translation: number[], scale = 1): Writer {
+  return new Writer()
+    .i32(name)
+    .u32(0) // Extra data
+    .i32(-1) // Controller
+    .u32(14) // Flags
+    .f32(...translation)
+    .f32(1, 0, 0, 0, 1, 0, 0, 0, 1) // Rotation
+    .f32(scale)
+    .i32(-1); // Collision object
+}
+
+/**
+ * Write a BSDismemberSkinInstance.
+ */
+function skinInstance(partition: number, bones: number[], parts: number[]) {
+  return new Writer()
+    .i32(-1, partition, -1)
+    .u32(bones.length)
+    .i32(...bones)
+    .u32(parts.length)
+    .u16(...parts.flatMap((part) => [1, part]));
+}
+
+/**
+ * Write a partition of NiSkinPartition.
+ */
+function partition(data: Writer, map: number[], numTriangles: number) {
+  data
+    .u16(map.length, numTriangles, 0, 0, 0)
+    .u8(map.length > 0 ? 1 : 0)
+    .u16(...map)
+    .u8(0) // Weights
+    .u8(1) // Faces
+    .u16(...Array.from({ length: numTriangles * 3 }, () => 0))
+    .u8(0); // Bone indices
+  return data;
+}
+
+describe('readNif', () => {
+  it('reads Skyrim LE shapes and partitions', () => {
+    const skinPartition = new Writer().u32(2);
+    partition(skinPartition, [0, 1], 1);
+    partition(skinPartition, [2], 0);
+    const nif = readNif(
+      writeNif(
+        NIF_BSVER_LE,
+        ['Armor', 'NPC Spine [Spn0]'],
+        [
+          { type: 'NiNode', data: new Writer().i32(1) },
+          {
+            type: 'NiTriShape',
+            data: shape(0, [0, 0, 10], 2).i32(2, 3),
+          },
+          {
+            type: 'NiTriShapeData',
+            data: new Writer()
+              .i32(0)
+              .u16(3, 0)
+              .u8(1)
+              .f32(1, 2, 3, 0, 0, 0, -1, 0, 0),
+          },
+          {
+            type: 'BSDismemberSkinInstance',
+            data: skinInstance(4, [0], [32, 34]),
+          },
+          { type: 'NiSkinPartition', data: skinPartition },
+        ]
+      )
+    );
+
+    assert.deepEqual(nif, {
+      bsVersion: NIF_BSVER_LE,
+      shapes: [
+        {
+          name: 'Armor',
+          type: 'NiTriShape',
+          vertices: [
+            [2, 4, 16],
+            [0, 0, 10],
+            [-2, 0, 10],
+          ],
+          bones: ['NPC Spine [Spn0]'],
+          partitions: [
+            { bodyPart: 32, slot: BodySlot.Body, vertices: [0, 1] },
+            { bodyPart: 34, slot: BodySlot.Forearms, vertices: [2] },
+          ],
+        },
+      ],
+    });
+    assert.deepEqual(nifSlots(nif), [BodySlot.Body, BodySlot.Forearms]);
+  });
+
+  it('reads Skyrim SSE shapes', () => {
+    const fullPrecision = (NIF_VA_VERTEX | NIF_VA_FULLPREC) << 12;
+    const halfPrecision = NIF_VA_VERTEX << 12;
+    const nif = readNif(
+      writeNif(
+        NIF_BSVER_SSE,
+        ['Full', 'Half'],
+        [
+          {
+            type: 'BSTriShape',
+            data: shape(0, [1, 0, 0])
+              .f32(0, 0, 0, 0) // Bounding sphere
+              .i32(-1, -1, -1) // Skin, shader and alpha properties
+              .u32(4, fullPrecision)
+              .u16(0, 2)
+              .u32(32)
+              .f32(1, 2, 3, 0, 4, 5, 6, 0),
+          },
+          {
+            type: 'BSSubIndexTriShape',
+            data: shape(1, [0, 0, 0])
+              .f32(0, 0, 0, 0)
+              .i32(-1, -1, -1)
+              .u32(2, halfPrecision)
+              .u16(0, 1)
+              .u32(8)
+              // 1, 2, -0.5 as half floats
+              .u16(0x3c00, 0x4000, 0xb800, 0),
+          },
+        ]
+      )
+    );
+
+    assert.deepEqual(
+      nif.shapes.map(({ name, type, vertices, partitions }) => ({
+        name,
+        type,
+        vertices,
+        partitions,
+      })),
+      [
+        {
+          name: 'Full',
+          type: 'BSTriShape',
+          vertices: [
+            [2, 2, 3],
+            [5, 5, 6],
+          ],
+          partitions: [],
+        },
+        {
+          name: 'Half',
+          type: 'BSSubIndexTriShape',
+          vertices: [[1, 2, -0.5]],
+          partitions: [],
+        },
+      ]
+    );
+    assert.deepEqual(nifSlots(nif), []);
+  });
+
+  it('reads Skyrim SSE vertices from the skin partition', () => {
+    const skinPartition = new Writer()
+      .u32(1)
+      .u32(24, 12, 3, (NIF_VA_VERTEX | NIF_VA_FULLPREC) << 12)
+      .f32(1, 2, 3, 4, 5, 6);
+    partition(skinPartition, [], 1)
+      .u8(0, 0) // LOD level and global VB
+      .u32(0, 0) // Vertex desc
+      .u16(0, 1, 1); // Triangles copy
+    const nif = readNif(
+      writeNif(
+        NIF_BSVER_SSE,
+        ['Body', 'NPC Pelvis [Pelv]'],
+        [
+          {
+            type: 'BSDismemberSkinInstance',
+            data: skinInstance(2, [3], [32]),
+          },
+          {
+            type: 'BSTriShape',
+            data: shape(0, [0, 0, 0])
+              .f32(0, 0, 0, 0)
+              .i32(0, -1, -1)
+              .u32(3, (NIF_VA_VERTEX | NIF_VA_FULLPREC) << 12)
+              .u16(1, 2)
+              .u32(0),
+          },
+          { type: 'NiSkinPartition', data: skinPartition },
+          { type: 'NiNode', data: new Writer().i32(1) },
+        ]
+      )
+    );
+
+    assert.deepEqual(nif.shapes, [
+      {
+        name: 'Body',
+        type: 'BSTriShape',
+        vertices: [
+          [1, 2, 3],
+          [4, 5, 6],
+        ],
+        bones: ['NPC Pelvis [Pelv]'],
+        // Without a vertex map, the lone partition is the whole shape
+        partitions: [{ bodyPart: 32, slot: BodySlot.Body, vertices: [0, 1] }],
+      },
+    ]);
+  });
+
+  it('rejects unsupported files', () => {
+    assert.throws(() => readNif(Buffer.from('DDS |\n')), /Not a nif/);
+    assert.throws(
+      () => readNif(writeNif(130, [], [])),
+      /Unsupported nif version/
+    );
+    assert.throws(
+      () => readNif(writeNif(NIF_BSVER_LE, [], [], 0x14000005)),
+      /Unsupported nif version/
+    );
+  });
+});
+
+/**
+ * Make a nif with a single shape.
+ */
+function mesh(
+  vertices: [number, number, number][],
+  partitions: NifPartition[] = []
+): Nif {
+  return {
+    bsVersion: NIF_BSVER_SSE,
+    shapes: [
+      { name: 'Shape', type: 'BSTriShape', vertices, bones: [], partitions },
+    ],
+  };
+}
+
+describe('bodyCoverage', () => {
+  const body = mesh(
+    [
+      [0, 0, 0],
+      [10, 0, 0],
+      [0, 10, 0],
+      [0, 0, -10],
+    ],
+    [
+      { bodyPart: 32, slot: BodySlot.Body, vertices: [0, 1] },
+      { bodyPart: 33, slot: BodySlot.Hands, vertices: [2] },
+      { bodyPart: 37, slot: BodySlot.Feet, vertices: [3] },
+    ]
+  );
+  // Covers the first body vertex (from a neighbouring cell) and the hands,
+  // but not the second body vertex
+  const armors = [
+    mesh([
+      [-2, 0, 0],
+      [10, 0, 4],
+    ]),
+    mesh([[0, 12, 0]]),
+  ];
+
+  it('counts body vertices with armor nearby', () => {
+    assert.equal(bodyCoverage(body, armors, [BodySlot.Body]), 0.5);
+    assert.equal(
+      bodyCoverage(body, armors, [BodySlot.Body, BodySlot.Hands]),
+      2 / 3
+    );
+    assert.equal(bodyCoverage(body, armors, [BodySlot.Feet]), 0);
+    assert.equal(bodyCoverage(body, [], [BodySlot.Hands]), 0);
+  });
+
+  it('measures nothing without the slots on the body', () => {
+    assert.equal(bodyCoverage(body, armors, [BodySlot.Head]), undefined);
+    assert.equal(bodyCoverage(body, armors, []), undefined);
+  });
+});
+
+describe('suggestAnswer', () => {
+  it('suggests the keyword below the threshold', () => {
+    assert.deepEqual(suggestAnswer(0.5, 0.25), {
+      choice: Choice.MaybeYes,
+      reason: '25% of body covered',
+      confidence: 0.5,
+    });
+    assert.equal(suggestAnswer(0.5, 0).confidence, 1);
+  });
+
+  it('suggests against the keyword from the threshold up', () => {
+    assert.deepEqual(suggestAnswer(0.5, 0.5), {
+      choice: Choice.MaybeNo,
+      reason: '50% of body covered',
+      confidence: 0,
+    });
+    assert.equal(suggestAnswer(0.5, 1).confidence, 1);
+    assert.equal(suggestAnswer(1, 1).confidence, 0);
+  });
+});